@@ -1,13 +1,333 @@
-import { loadBridgeConfig } from "./lib/config.js";
+import { readFileSync, statSync } from "node:fs";
+import { createInterface } from "node:readline/promises";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+
+import {
+  CONFIG_FLAGS,
+  ConfigError,
+  parseConfigFlag,
+  redactConfig,
+  resolveBridgeConfig,
+  type ConfigValues,
+  type ResolvedBridgeConfig,
+} from "./lib/config.js";
+import { listCursorCliModels, type CursorCliModel } from "./lib/cursorCli.js";
+import { runDoctor } from "./lib/doctor.js";
+import { removeLockFile } from "./lib/lockFile.js";
+import { createLogger } from "./lib/logger.js";
+import { buildOpencodeProvider, OPENCODE_PROVIDER_ID } from "./lib/opencodeConfig.js";
+import {
+  applyOpencodeSync,
+  defaultOpencodeConfigPath,
+  planOpencodeSync,
+} from "./lib/opencodeSync.js";
 import { startBridgeServer } from "./lib/server.js";
 
-async function main() {
-  const config = loadBridgeConfig();
-  startBridgeServer({ version: "0.1.1", config });
+/** Process exit codes; documented in `--help`, so scripts may rely on them. */
+const EXIT = {
+  ok: 0,
+  failure: 1,
+  usage: 2,
+  config: 3,
+} as const;
+
+class UsageError extends Error {}
+
+type CommandLine = {
+  command: string[];
+  configFile?: string;
+  flags: ConfigValues;
+  help: boolean;
+  version: boolean;
+  json: boolean;
+  file?: string;
+  yes: boolean;
+  dryRun: boolean;
+};
+
+function readVersion(): string {
+  // dist/cli.js and src/cli.ts both sit one level below package.json.
+  const pkg = JSON.parse(readFileSync(new URL("../package.json", import.meta.url), "utf8"));
+  return String(pkg.version);
+}
+
+/** The mtime of this entry file, which every rebuild changes; the plugin compares it. */
+function readBuild(): string | undefined {
+  try {
+    return statSync(fileURLToPath(import.meta.url)).mtime.toISOString();
+  } catch {
+    return undefined;
+  }
+}
+
+function out(text: string) {
+  process.stdout.write(`${text}\n`);
+}
+
+function err(text: string) {
+  process.stderr.write(`${text}\n`);
+}
+
+function helpText(): string {
+  const width = Math.max(...CONFIG_FLAGS.map((f) => f.flag.length + (f.boolean ? 0 : 8)));
+  const flagLines = CONFIG_FLAGS.map((f) => {
+    const left = f.boolean ? f.flag : `${f.flag} <value>`;
+    const env = f.env.length ? ` [${f.env[0]}]` : "";
+    return `  ${left.padEnd(width + 2)}${f.help}${env}`;
+  });
+  return [
+    "Usage: cursor-openai-bridge [command] [options]",
+    "",
+    "Commands:",
+    "  serve              start the bridge (default)",
+    "  models             list models available to Cursor CLI",
+    "  doctor             check Cursor CLI, login, workspace and a running bridge",
+    "  config print       print the effective config and where each value came from",
+    "  opencode-config    print a provider block for opencode.json",
+    "  sync-opencode      add missing Cursor models to OpenCode's config (shows a diff first)",
+    "",
+    "Options:",
+    "  --config <file>    config file (default: ~/.config/cursor-openai-bridge/config.json)",
+    "  --json             machine-readable output (models, doctor, sync-opencode)",
+    "  --file <path>      sync-opencode: config to edit (default: OpenCode global config)",
+    "  --yes              sync-opencode: write without asking",
+    "  --dry-run          sync-opencode: only show the diff",
+    "  -h, --help         show this help",
+    "  -v, --version      print the version",
+    "",
+    "Settings (override env vars and the config file; booleans accept --no-<flag>):",
+    ...flagLines,
+    "",
+    "Exit codes: 0 success, 1 command failed, 2 usage error, 3 invalid config.",
+  ].join("\n");
+}
+
+function parseCommandLine(argv: string[]): CommandLine {
+  const flags: ConfigValues = {};
+  const rest: string[] = [];
+  for (const arg of argv) {
+    const negated = arg.match(/^--no-(.+)$/);
+    const flag = negated && CONFIG_FLAGS.find((f) => f.boolean && f.flag === `--${negated[1]}`);
+    if (flag) flags[flag.key] = false;
+    else rest.push(arg);
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: rest,
+      allowPositionals: true,
+      strict: true,
+      options: {
+        help: { type: "boolean", short: "h" },
+        version: { type: "boolean", short: "v" },
+        json: { type: "boolean" },
+        config: { type: "string" },
+        file: { type: "string" },
+        yes: { type: "boolean" },
+        "dry-run": { type: "boolean" },
+        ...Object.fromEntries(
+          CONFIG_FLAGS.map((f) => [
+            f.flag.slice(2),
+            { type: f.boolean ? ("boolean" as const) : ("string" as const) },
+          ]),
+        ),
+      },
+    });
+  } catch (e) {
+    throw new UsageError((e as Error).message);
+  }
+
+  const values = parsed.values as Record<string, string | boolean | undefined>;
+  for (const f of CONFIG_FLAGS) {
+    const raw = values[f.flag.slice(2)];
+    if (raw === undefined) continue;
+    try {
+      flags[f.key] = parseConfigFlag(f.key, raw);
+    } catch (e) {
+      throw new UsageError((e as Error).message);
+    }
+  }
+
+  return {
+    command: parsed.positionals,
+    configFile: values.config as string | undefined,
+    flags,
+    help: Boolean(values.help),
+    version: Boolean(values.version),
+    json: Boolean(values.json),
+    file: values.file as string | undefined,
+    yes: Boolean(values.yes),
+    dryRun: Boolean(values["dry-run"]),
+  };
+}
+
+async function serve(resolved: ResolvedBridgeConfig, version: string): Promise<number> {
+  const log = createLogger(resolved.config);
+  return new Promise((resolve) => {
+    const server = startBridgeServer({
+      version,
+      build: readBuild(),
+      config: resolved.config,
+      resolvedConfig: resolved,
+      log,
+      // Stop accepting requests, let in-flight ones finish, then exit.
+      onUnused: () => server.close(() => resolve(EXIT.ok)),
+      onListenError: (e) => {
+        const { host, port } = resolved.config;
+        log.error(`cannot listen on ${host}:${port}: ${e.message}`, { code: e.code });
+        resolve(EXIT.failure);
+      },
+    });
+    // Signals skip server "close", so drop the lock file here; clients would
+    // otherwise have to find out it is stale.
+    for (const [signal, code] of [["SIGTERM", 143], ["SIGINT", 130]] as const) {
+      process.once(signal, () => {
+        removeLockFile(resolved.config.lockFile);
+        process.exit(code);
+      });
+    }
+  });
+}
+
+async function listModels(resolved: ResolvedBridgeConfig): Promise<CursorCliModel[]> {
+  return listCursorCliModels({ agentBin: resolved.config.agentBin, timeoutMs: 60_000 });
+}
+
+async function models(resolved: ResolvedBridgeConfig, json: boolean): Promise<number> {
+  const list = await listModels(resolved);
+  if (json) out(JSON.stringify(list, null, 2));
+  else for (const m of list) out(`${m.id} - ${m.name}`);
+  return EXIT.ok;
+}
+
+async function doctor(resolved: ResolvedBridgeConfig, json: boolean): Promise<number> {
+  const checks = await runDoctor(resolved);
+  if (json) {
+    out(JSON.stringify(checks, null, 2));
+  } else {
+    const mark = { ok: "ok  ", warn: "warn", fail: "FAIL" };
+    for (const c of checks) out(`${mark[c.status]}  ${c.name}: ${c.detail}`);
+  }
+  return checks.some((c) => c.status === "fail") ? EXIT.failure : EXIT.ok;
+}
+
+function printConfig(resolved: ResolvedBridgeConfig): number {
+  out(
+    JSON.stringify(
+      { file: resolved.file, effective: redactConfig(resolved.config), sources: resolved.sources },
+      null,
+      2,
+    ),
+  );
+  return EXIT.ok;
+}
+
+async function opencodeConfig(resolved: ResolvedBridgeConfig): Promise<number> {
+  let list: CursorCliModel[] = [];
+  try {
+    list = await listModels(resolved);
+  } catch (e) {
+    err(`cursor-openai-bridge: could not list Cursor models (${(e as Error).message})`);
+  }
+  const provider = buildOpencodeProvider({ config: resolved.config, models: list });
+  const config = {
+    $schema: "https://opencode.ai/config.json",
+    provider: { [OPENCODE_PROVIDER_ID]: provider },
+  };
+  out(JSON.stringify(config, null, 2));
+  return EXIT.ok;
+}
+
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return /^y(es)?$/i.test((await rl.question(question)).trim());
+  } finally {
+    rl.close();
+  }
+}
+
+async function syncOpencode(resolved: ResolvedBridgeConfig, cli: CommandLine): Promise<number> {
+  const plan = await planOpencodeSync({
+    file: cli.file ?? defaultOpencodeConfigPath(),
+    config: resolved.config,
+    models: await listModels(resolved),
+  });
+  const changed = plan.added.length > 0;
+
+  let written = false;
+  if (changed && !cli.dryRun) {
+    if (!cli.json) out(plan.diff);
+    written = cli.yes || (!cli.json && (await confirm(`Write ${plan.file}? [y/N] `)));
+    if (written) await applyOpencodeSync(plan);
+  }
+
+  if (cli.json) {
+    const { file, added, kept, stale, diff } = plan;
+    out(JSON.stringify({ file, added, kept, stale, diff, written }, null, 2));
+  } else {
+    if (cli.dryRun && changed) out(plan.diff);
+    if (!changed) out(`${plan.file} already lists every Cursor model.`);
+    else if (written) out(`Added ${plan.added.length} model(s) to ${plan.file}.`);
+    else if (!cli.dryRun) err("Not written; pass --yes to write without asking.");
+    if (plan.stale.length) {
+      out(`Not offered by Cursor any more (left in place): ${plan.stale.join(", ")}`);
+    }
+  }
+  return changed && !written && !cli.dryRun ? EXIT.failure : EXIT.ok;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const version = readVersion();
+  const cli = parseCommandLine(argv);
+  if (cli.version) {
+    out(version);
+    return EXIT.ok;
+  }
+  if (cli.help) {
+    out(helpText());
+    return EXIT.ok;
+  }
+
+  const [command = "serve", sub, ...extra] = cli.command;
+  const known = ["serve", "models", "doctor", "config", "opencode-config", "sync-opencode"];
+  if (!known.includes(command)) throw new UsageError(`unknown command "${command}"`);
+  if (command === "config" ? sub !== "print" || extra.length : sub !== undefined) {
+    throw new UsageError(`unexpected arguments: ${cli.command.join(" ")}`);
+  }
+
+  const resolved = resolveBridgeConfig({ configFile: cli.configFile, flags: cli.flags });
+  switch (command) {
+    case "models":
+      return models(resolved, cli.json);
+    case "doctor":
+      return doctor(resolved, cli.json);
+    case "config":
+      return printConfig(resolved);
+    case "opencode-config":
+      return opencodeConfig(resolved);
+    case "sync-opencode":
+      return syncOpencode(resolved, cli);
+    default:
+      return serve(resolved, version);
+  }
 }
 
-main().catch((err) => {
-  // eslint-disable-next-line no-console
-  console.error(err);
-  process.exit(1);
-});
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (e) => {
+    if (e instanceof UsageError) {
+      err(`cursor-openai-bridge: ${e.message}\nRun with --help for usage.`);
+      process.exit(EXIT.usage);
+    }
+    if (e instanceof ConfigError) {
+      err(`cursor-openai-bridge: ${e.message}`);
+      process.exit(EXIT.config);
+    }
+    err(`cursor-openai-bridge: ${e instanceof Error ? e.message : String(e)}`);
+    process.exit(EXIT.failure);
+  },
+);
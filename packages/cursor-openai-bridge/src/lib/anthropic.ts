@@ -0,0 +1,397 @@
+import { randomUUID } from "node:crypto";
+import type * as http from "node:http";
+
+import { HEARTBEAT_INTERVAL_MS } from "./chatCompletions.js";
+import { describeFailure, type CompletionInput } from "./completion.js";
+import type { BridgeContext } from "./context.js";
+import {
+  endEventStream,
+  expectParam,
+  HttpError,
+  json,
+  readJsonBody,
+  rejectUnknownFields,
+  sendNamedEvent,
+  startEventStream,
+  startHeartbeat,
+} from "./http.js";
+import { validateMessageContent } from "./images.js";
+import type { OpenAiTool, OpenAiToolCall, OpenAiToolChoice } from "./openai.js";
+import { activeTools } from "./tools.js";
+import type { TokenUsage } from "./usage.js";
+
+// Translation between the Anthropic Messages API (/v1/messages) and the chat
+// message shape the rest of the bridge works with.
+
+export type AnthropicTool = {
+  name: string;
+  description?: string;
+  input_schema?: unknown;
+};
+
+export type AnthropicToolChoice = {
+  type: "auto" | "any" | "tool" | "none";
+  name?: string;
+  disable_parallel_tool_use?: boolean;
+};
+
+export type AnthropicMessagesRequest = {
+  model?: string;
+  system?: string | any[];
+  messages?: any[];
+  max_tokens?: number;
+  stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+};
+
+type StopReason = "end_turn" | "tool_use";
+
+// Every field of Anthropic's Messages API request; see CHAT_FIELDS in chatCompletions.ts.
+const MESSAGES_FIELDS = [
+  "model",
+  "system",
+  "messages",
+  "max_tokens",
+  "stream",
+  "tools",
+  "tool_choice",
+  "temperature",
+  "top_p",
+  "top_k",
+  "stop_sequences",
+  "metadata",
+  "thinking",
+  "service_tier",
+  "container",
+  "mcp_servers",
+];
+
+function newMessageId(): string {
+  return `msg_${randomUUID().replace(/-/g, "")}`;
+}
+
+function blocksToText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((b) => b?.type === "text" && typeof b.text === "string")
+    .map((b) => b.text)
+    .join("\n");
+}
+
+function blockToChat(block: any, param: string): unknown {
+  if (block?.type === "text") return { type: "text", text: String(block.text ?? "") };
+  if (block?.type === "image") {
+    const src = block.source;
+    if (src?.type === "base64") {
+      return { type: "image_url", image_url: { url: `data:${src.media_type};base64,${src.data}` } };
+    }
+    if (src?.type === "url") return { type: "image_url", image_url: { url: src.url } };
+    throw new HttpError(
+      400,
+      "unsupported_image_source",
+      `Unsupported image source type: ${String(src?.type)}`,
+      `${param}.source.type`,
+    );
+  }
+  // Left for validateMessageContent to reject with a clear 400.
+  return { type: String(block?.type) };
+}
+
+/** Converts `system` + Anthropic messages into chat-completions messages. */
+export function anthropicToMessages(body: AnthropicMessagesRequest): any[] {
+  const messages: any[] = [];
+  const system = blocksToText(body.system);
+  if (system) messages.push({ role: "system", content: system });
+
+  for (const [i, m] of (body.messages || []).entries()) {
+    expectParam(typeof m === "object" && m !== null, `messages[${i}]`, "an object");
+    expectParam(
+      typeof m.content === "string" || Array.isArray(m.content),
+      `messages[${i}].content`,
+      "a string or an array",
+    );
+    if (typeof m.content === "string") {
+      messages.push({ role: m.role, content: m.content });
+      continue;
+    }
+
+    const parts: unknown[] = [];
+    const toolCalls: OpenAiToolCall[] = [];
+    for (const [j, block] of m.content.entries()) {
+      const param = `messages[${i}].content[${j}]`;
+      if (block?.type === "tool_use") {
+        toolCalls.push({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      } else if (block?.type === "tool_result") {
+        const text = blocksToText(block.content);
+        messages.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `Error: ${text}` : text,
+        });
+      } else if (block?.type === "thinking" || block?.type === "redacted_thinking") {
+        // Thinking blocks carry nothing Cursor CLI can use.
+      } else {
+        parts.push(blockToChat(block, param));
+      }
+    }
+
+    if (toolCalls.length) {
+      messages.push({ role: "assistant", content: blocksToText(parts), tool_calls: toolCalls });
+    } else if (parts.length) {
+      messages.push({ role: m.role, content: parts });
+    }
+  }
+
+  return messages;
+}
+
+export function anthropicToolsToChat(tools: AnthropicTool[] | undefined): OpenAiTool[] {
+  return (tools || [])
+    .filter((t) => t?.name)
+    .map((t) => ({
+      type: "function" as const,
+      function: { name: t.name, description: t.description, parameters: t.input_schema },
+    }));
+}
+
+export function anthropicToolChoiceToChat(
+  choice: AnthropicToolChoice | undefined,
+): OpenAiToolChoice | undefined {
+  switch (choice?.type) {
+    case "auto":
+      return "auto";
+    case "any":
+      return "required";
+    case "none":
+      return "none";
+    case "tool":
+      return choice.name ? { type: "function", function: { name: choice.name } } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+export function anthropicUsage(usage: TokenUsage) {
+  const cached = usage.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    input_tokens: usage.prompt_tokens - cached,
+    cache_read_input_tokens: cached,
+    output_tokens: usage.completion_tokens,
+    source: usage.source,
+  };
+}
+
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+function toolUseBlock(call: OpenAiToolCall) {
+  return {
+    type: "tool_use",
+    id: call.id,
+    name: call.function.name,
+    input: parseArguments(call.function.arguments),
+  };
+}
+
+function messageObject(args: {
+  id: string;
+  model: string;
+  content: unknown[];
+  stopReason: StopReason | null;
+  usage?: TokenUsage;
+}) {
+  return {
+    id: args.id,
+    type: "message",
+    role: "assistant",
+    model: args.model,
+    content: args.content,
+    stop_reason: args.stopReason,
+    stop_sequence: null,
+    usage: args.usage ? anthropicUsage(args.usage) : { input_tokens: 0, output_tokens: 0 },
+  };
+}
+
+const ANTHROPIC_ERROR_TYPES: Record<number, string> = {
+  400: "invalid_request_error",
+  401: "authentication_error",
+  403: "permission_error",
+  404: "not_found_error",
+  413: "request_too_large",
+  429: "rate_limit_error",
+  503: "overloaded_error",
+};
+
+/** Anthropic's `error.type` for a status code. */
+function anthropicErrorType(status: number): string {
+  return ANTHROPIC_ERROR_TYPES[status] ?? (status < 500 ? "invalid_request_error" : "api_error");
+}
+
+/** Sends `err` in the envelope Anthropic SDKs parse instead of the OpenAI one. */
+export function sendAnthropicError(res: http.ServerResponse, err: HttpError) {
+  for (const [name, value] of Object.entries(err.extra.headers ?? {})) res.setHeader(name, value);
+  json(res, err.status, {
+    type: "error",
+    error: { type: anthropicErrorType(err.status), message: err.message },
+  });
+}
+
+/** POST /v1/messages */
+export async function handleAnthropicMessages(
+  ctx: BridgeContext,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) {
+  const body = await readJsonBody<AnthropicMessagesRequest>(req, ctx.config.maxBodyBytes);
+  if (ctx.config.rejectUnknownFields) rejectUnknownFields(body, MESSAGES_FIELDS);
+  expectParam(Array.isArray(body.messages), "messages", "an array");
+  expectParam(body.model === undefined || typeof body.model === "string", "model", "a string");
+  const messages = anthropicToMessages(body);
+  const toolChoice = anthropicToolChoiceToChat(body.tool_choice);
+  const input: Omit<CompletionInput, "workspace" | "signal" | "sessionKey"> = {
+    model: ctx.resolveModel(body.model),
+    messages,
+    tools: activeTools(anthropicToolsToChat(body.tools), toolChoice),
+    toolChoice,
+    parallelToolCalls: body.tool_choice?.disable_parallel_tool_use ? false : undefined,
+  };
+
+  const id = newMessageId();
+  const scope = await ctx.beginRun(req, res, input.model);
+  if (!scope) return;
+
+  const run: CompletionInput = {
+    ...input,
+    workspace: scope.workspace,
+    sessionKey: scope.sessionKey,
+    signal: scope.signal,
+    log: scope.log,
+    cacheMode: scope.cacheMode,
+    onAttempt: scope.onAttempt,
+  };
+
+  try {
+    // Image files are checked against the workspace, known once the run begins.
+    await validateMessageContent(messages, scope.workspace);
+    if (body.stream) {
+      await streamMessage(ctx, res, { id, input: run });
+      return;
+    }
+
+    const result = await ctx.runCompletion(run);
+    if (!result.ok) {
+      if (result.cancelled) {
+        ctx.logCancelled(id, result.cancelled);
+        return;
+      }
+      sendAnthropicError(res, describeFailure(result));
+      return;
+    }
+
+    const content: unknown[] = [];
+    if (result.content) content.push({ type: "text", text: result.content });
+    content.push(...result.toolCalls.map(toolUseBlock));
+    if (result.resumed) res.setHeader("X-Cursor-Session-Resumed", "true");
+    json(
+      res,
+      200,
+      messageObject({
+        id,
+        model: run.model,
+        content,
+        stopReason: result.toolCalls.length ? "tool_use" : "end_turn",
+        usage: result.usage,
+      }),
+    );
+  } finally {
+    scope.release();
+  }
+}
+
+/**
+ * Streams a message as Anthropic SSE events. The text block is opened lazily
+ * on the first delta; tool calls are only known once the run ends, so each
+ * `tool_use` block is sent whole after the text.
+ */
+async function streamMessage(
+  ctx: BridgeContext,
+  res: http.ServerResponse,
+  args: { id: string; input: CompletionInput },
+) {
+  const { id } = args;
+  const model = args.input.model;
+  const emit = (type: string, data: Record<string, unknown> = {}) =>
+    sendNamedEvent(res, type, { type, ...data });
+
+  startEventStream(res);
+  const stopHeartbeat = startHeartbeat(res, HEARTBEAT_INTERVAL_MS);
+
+  let index = 0;
+  let textOpen = false;
+
+  emit("message_start", {
+    message: messageObject({ id, model, content: [], stopReason: null }),
+  });
+
+  try {
+    const result = await ctx.runCompletion({
+      ...args.input,
+      onText: (text) => {
+        if (!textOpen) {
+          textOpen = true;
+          emit("content_block_start", { index, content_block: { type: "text", text: "" } });
+        }
+        emit("content_block_delta", { index, delta: { type: "text_delta", text } });
+      },
+    });
+
+    if (!result.ok) {
+      if (result.cancelled) ctx.logCancelled(id, result.cancelled);
+      else {
+        const failure = describeFailure(result);
+        emit("error", {
+          error: { type: anthropicErrorType(failure.status), message: failure.message },
+        });
+      }
+    } else {
+      if (textOpen) emit("content_block_stop", { index: index++ });
+      for (const call of result.toolCalls) {
+        emit("content_block_start", {
+          index,
+          content_block: { ...toolUseBlock(call), input: {} },
+        });
+        emit("content_block_delta", {
+          index,
+          delta: { type: "input_json_delta", partial_json: call.function.arguments },
+        });
+        emit("content_block_stop", { index: index++ });
+      }
+      emit("message_delta", {
+        delta: {
+          stop_reason: result.toolCalls.length ? "tool_use" : "end_turn",
+          stop_sequence: null,
+        },
+        usage: anthropicUsage(result.usage),
+      });
+      emit("message_stop");
+    }
+  } catch (err) {
+    emit("error", {
+      error: { type: "api_error", message: err instanceof Error ? err.message : String(err) },
+    });
+  } finally {
+    stopHeartbeat();
+  }
+  endEventStream(res, null);
+}
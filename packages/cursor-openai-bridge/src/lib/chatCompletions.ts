@@ -0,0 +1,176 @@
+import { randomUUID } from "node:crypto";
+import type * as http from "node:http";
+
+import { validateChatRequest } from "./chatSchema.js";
+import { describeFailure, type CompletionInput } from "./completion.js";
+import type { BridgeContext } from "./context.js";
+import {
+  endEventStream,
+  errorBody,
+  HttpError,
+  json,
+  readJsonBody,
+  rejectUnknownFields,
+  sendEvent,
+  sendHttpError,
+  startEventStream,
+  startHeartbeat,
+} from "./http.js";
+import { validateMessageContent } from "./images.js";
+import {
+  chatCompletionChunk,
+  chatCompletionUsageChunk,
+  type OpenAiChatCompletionRequest,
+} from "./openai.js";
+import { parseResponseFormat } from "./structuredOutput.js";
+import { activeTools } from "./tools.js";
+
+export const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// Every field of OpenAI's chat completions request. The bridge ignores the
+// sampling and bookkeeping ones, since Cursor CLI has no equivalent.
+const CHAT_FIELDS = [
+  "model",
+  "messages",
+  "stream",
+  "stream_options",
+  "tools",
+  "tool_choice",
+  "parallel_tool_calls",
+  "response_format",
+  "functions",
+  "function_call",
+  "temperature",
+  "top_p",
+  "n",
+  "stop",
+  "max_tokens",
+  "max_completion_tokens",
+  "presence_penalty",
+  "frequency_penalty",
+  "logit_bias",
+  "logprobs",
+  "top_logprobs",
+  "seed",
+  "user",
+  "metadata",
+  "store",
+  "service_tier",
+  "reasoning_effort",
+  "verbosity",
+  "modalities",
+  "audio",
+  "prediction",
+  "web_search_options",
+  "prompt_cache_key",
+  "safety_identifier",
+];
+
+/** POST /v1/chat/completions */
+export async function handleChatCompletions(
+  ctx: BridgeContext,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) {
+  const body = await readJsonBody<OpenAiChatCompletionRequest>(req, ctx.config.maxBodyBytes);
+  if (ctx.config.rejectUnknownFields) rejectUnknownFields(body, CHAT_FIELDS);
+  validateChatRequest(body);
+  const model = ctx.resolveModel(body.model);
+  const tools = activeTools(body.tools, body.tool_choice);
+  const responseFormat = parseResponseFormat(body.response_format, "response_format");
+
+  const id = `chatcmpl_${randomUUID().replace(/-/g, "")}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  const scope = await ctx.beginRun(req, res, model);
+  if (!scope) return;
+
+  const input: CompletionInput = {
+    model,
+    workspace: scope.workspace,
+    messages: body.messages,
+    tools,
+    toolChoice: body.tool_choice,
+    parallelToolCalls: body.parallel_tool_calls,
+    responseFormat,
+    sessionKey: scope.sessionKey,
+    signal: scope.signal,
+    log: scope.log,
+    cacheMode: scope.cacheMode,
+    onAttempt: scope.onAttempt,
+  };
+
+  try {
+    // Image files are checked against the workspace, known once the run begins.
+    await validateMessageContent(body.messages, scope.workspace);
+    if (body.stream) {
+      startEventStream(res);
+      const stopHeartbeat = startHeartbeat(res, HEARTBEAT_INTERVAL_MS);
+      const send = (delta: Record<string, unknown>, finishReason: string | null) =>
+        sendEvent(res, chatCompletionChunk({ id, created, model, delta, finishReason }));
+
+      send({ role: "assistant", content: "" }, null);
+      try {
+        const result = await ctx.runCompletion({
+          ...input,
+          onText: (content) => send({ content }, null),
+        });
+        if (!result.ok) {
+          if (result.cancelled) ctx.logCancelled(id, result.cancelled);
+          else sendEvent(res, errorBody(describeFailure(result)));
+        } else {
+          if (result.toolCalls.length) {
+            send(
+              {
+                tool_calls: result.toolCalls.map((c, index) => ({ index, ...c })),
+              },
+              null,
+            );
+          }
+          send({}, result.finishReason);
+          if (body.stream_options?.include_usage) {
+            sendEvent(res, chatCompletionUsageChunk({ id, created, model, usage: result.usage }));
+          }
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        sendEvent(res, errorBody(new HttpError(500, "internal_error", message)));
+      } finally {
+        stopHeartbeat();
+      }
+      endEventStream(res);
+      return;
+    }
+
+    const result = await ctx.runCompletion(input);
+    if (!result.ok) {
+      if (result.cancelled) {
+        ctx.logCancelled(id, result.cancelled);
+        return;
+      }
+      sendHttpError(res, describeFailure(result));
+      return;
+    }
+
+    const message = result.toolCalls.length
+      ? { role: "assistant", content: result.content || null, tool_calls: result.toolCalls }
+      : { role: "assistant", content: result.content };
+    if (result.resumed) res.setHeader("X-Cursor-Session-Resumed", "true");
+    json(res, 200, {
+      id,
+      object: "chat.completion",
+      created,
+      model,
+      choices: [
+        {
+          index: 0,
+          message,
+          finish_reason: result.finishReason,
+        },
+      ],
+      usage: result.usage,
+    });
+  } finally {
+    scope.release();
+  }
+}
@@ -0,0 +1,120 @@
+import { HttpError } from "./http.js";
+import { validateJsonSchema } from "./structuredOutput.js";
+
+// The parts of a chat completions request the bridge reads, as JSON Schema,
+// checked with the same validator JSON mode uses for model output. Fields the
+// bridge ignores are only type-checked where a wrong type hints at a bug.
+
+// Part types are checked by validateMessageContent, which names the bad one.
+const CONTENT_PART = {
+  type: "object",
+  required: ["type"],
+  properties: { type: { type: "string" }, text: { type: "string" } },
+};
+
+const TOOL_CALL = {
+  type: "object",
+  required: ["id", "type", "function"],
+  properties: {
+    id: { type: "string" },
+    type: { const: "function" },
+    function: {
+      type: "object",
+      required: ["name", "arguments"],
+      properties: { name: { type: "string" }, arguments: { type: "string" } },
+    },
+  },
+};
+
+const MESSAGE = {
+  type: "object",
+  required: ["role"],
+  properties: {
+    role: { enum: ["system", "developer", "user", "assistant", "tool", "function"] },
+    content: { type: ["string", "array", "null"], items: CONTENT_PART },
+    name: { type: "string" },
+    tool_calls: { type: "array", items: TOOL_CALL },
+    tool_call_id: { type: "string" },
+  },
+};
+
+const TOOL = {
+  type: "object",
+  required: ["type", "function"],
+  properties: {
+    type: { const: "function" },
+    function: {
+      type: "object",
+      required: ["name"],
+      properties: {
+        name: { type: "string", minLength: 1 },
+        description: { type: "string" },
+        parameters: { type: "object" },
+      },
+    },
+  },
+};
+
+export const CHAT_REQUEST_SCHEMA = {
+  type: "object",
+  required: ["messages"],
+  properties: {
+    model: { type: "string" },
+    messages: { type: "array", minItems: 1, items: MESSAGE },
+    stream: { type: "boolean" },
+    stream_options: {
+      type: ["object", "null"],
+      properties: { include_usage: { type: "boolean" } },
+    },
+    tools: { type: "array", items: TOOL },
+    tool_choice: {
+      anyOf: [
+        { enum: ["none", "auto", "required"] },
+        {
+          type: "object",
+          required: ["type", "function"],
+          properties: {
+            type: { const: "function" },
+            function: {
+              type: "object",
+              required: ["name"],
+              properties: { name: { type: "string" } },
+            },
+          },
+        },
+      ],
+    },
+    parallel_tool_calls: { type: "boolean" },
+    response_format: { type: ["object", "null"] },
+    temperature: { type: ["number", "null"], minimum: 0, maximum: 2 },
+    top_p: { type: ["number", "null"], minimum: 0, maximum: 1 },
+    n: { type: ["integer", "null"], minimum: 1, maximum: 1 },
+    stop: { type: ["string", "array", "null"], items: { type: "string" } },
+    max_tokens: { type: ["integer", "null"], minimum: 1 },
+    max_completion_tokens: { type: ["integer", "null"], minimum: 1 },
+    user: { type: "string" },
+    metadata: { type: ["object", "null"] },
+  },
+};
+
+/**
+ * 400s a chat completions request that does not match CHAT_REQUEST_SCHEMA.
+ * `param` names the first bad field (e.g. `messages[2].role`); every problem
+ * is listed in `details`.
+ */
+export function validateChatRequest(body: unknown) {
+  const errors = validateJsonSchema(body, CHAT_REQUEST_SCHEMA);
+  if (!errors.length) return;
+  const [first] = errors;
+  const path = first.slice(0, first.indexOf(":"));
+  const missing = first.match(/missing required property "([^"]+)"/)?.[1];
+  const param = [path.replace(/^\$\.?/, ""), missing].filter(Boolean).join(".");
+  const shown = errors.slice(0, 5).map((e) => e.replace(/^\$\.?/, "").replace(/^: /, ""));
+  throw new HttpError(
+    400,
+    "invalid_request",
+    `Invalid chat completions request: ${shown.join("; ")}`,
+    param || undefined,
+    { details: errors },
+  );
+}
@@ -0,0 +1,84 @@
+/** Why a Cursor CLI run failed, judged from its exit code and stderr. */
+export type CliErrorClass =
+  | "auth"
+  | "forbidden"
+  | "rate_limit"
+  | "unknown_model"
+  | "transient"
+  | "timeout"
+  | "fatal";
+
+// Checked in order; the first match wins. Cursor CLI has no structured error
+// output, so these follow the messages it and its HTTP stack print.
+const PATTERNS: [CliErrorClass, RegExp][] = [
+  [
+    "forbidden",
+    /forbidden|permission denied|access denied|not allowed|not (included|available) (in|on) your (plan|subscription)|\b403\b/i,
+  ],
+  [
+    "auth",
+    /not (authenticated|logged in)|unauthori[sz]ed|login required|please (run .*)?log ?in|invalid api key|\b401\b/i,
+  ],
+  ["rate_limit", /rate.?limit|too many requests|\b429\b|quota|usage limit/i],
+  [
+    "unknown_model",
+    /(unknown|invalid|unsupported|unavailable) model|model\b.*\b(not found|not available|unavailable|does not exist|not supported)|no such model/i,
+  ],
+  [
+    "transient",
+    /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|network|temporar|capacity|overloaded|\b50[234]\b|try again|service unavailable/i,
+  ],
+];
+
+export function classifyCliFailure(failure: {
+  code: number;
+  stderr: string;
+  timedOut?: unknown;
+}): CliErrorClass {
+  if (failure.timedOut) return "timeout";
+  const match = PATTERNS.find(([, re]) => re.test(failure.stderr));
+  return match ? match[0] : "fatal";
+}
+
+/** Classes worth running again with the same model after a pause. */
+export function isRetryable(cls: CliErrorClass): boolean {
+  return cls === "rate_limit" || cls === "transient";
+}
+
+/** Classes where another model may succeed. */
+export function warrantsFallback(cls: CliErrorClass): boolean {
+  return cls === "unknown_model" || isRetryable(cls);
+}
+
+/** A "retry after N seconds" hint in stderr, in ms. */
+export function retryAfterHintMs(stderr: string): number | undefined {
+  const match = stderr.match(/retry.?after:?\s*(\d+(?:\.\d+)?)\s*(ms|s|sec|seconds?)?/i);
+  if (!match) return undefined;
+  const n = Number(match[1]);
+  return match[2]?.toLowerCase() === "ms" ? n : n * 1000;
+}
+
+/**
+ * Delay before retry number `retry` (1-based): exponential from `baseMs`,
+ * capped at 30s, with ±20% jitter so parallel requests spread out.
+ */
+export function backoffMs(retry: number, baseMs: number): number {
+  const exp = Math.min(baseMs * 2 ** (retry - 1), 30_000);
+  return Math.round(exp * (0.8 + Math.random() * 0.4));
+}
+
+/** Resolves after `ms`, or early (false) when `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve(false);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,515 @@
+import {
+  backoffMs,
+  classifyCliFailure,
+  isRetryable,
+  retryAfterHintMs,
+  sleep,
+  warrantsFallback,
+  type CliErrorClass,
+} from "./cliErrors.js";
+import type { BridgeConfig } from "./config.js";
+import { HttpError } from "./http.js";
+import {
+  buildCursorPrintArgs,
+  createCursorTextStream,
+  parseCursorStreamLine,
+  redactCursorArgs,
+} from "./cursorCli.js";
+import { materializeImages } from "./images.js";
+import { stderrTail, type Logger } from "./logger.js";
+import type { BridgeMetrics } from "./metrics.js";
+import {
+  buildPromptFromMessages,
+  type OpenAiTool,
+  type OpenAiToolCall,
+  type OpenAiToolChoice,
+} from "./openai.js";
+import { runStreaming, type CancelOutcome } from "./process.js";
+import { actsOnWorkspace, resolveRunSettings } from "./profiles.js";
+import { responseCacheKey, type CacheMode, type ResponseCache } from "./responseCache.js";
+import { sessionSeed, type SessionMatch, type SessionStore } from "./sessions.js";
+import {
+  buildResponseFormatInstructions,
+  buildRetryMessage,
+  checkJsonOutput,
+  type ResponseFormat,
+} from "./structuredOutput.js";
+import { buildToolInstructions, createToolCallFilter, newToolCallId } from "./tools.js";
+import { addUsage, resolveUsage, type TokenUsage } from "./usage.js";
+
+export type CompletionInput = {
+  /** Cursor model id or a profile alias from `config.profiles`. */
+  model: string;
+  workspace: string;
+  messages: any[];
+  /** Tools already filtered by `activeTools`; empty disables tool calling. */
+  tools: OpenAiTool[];
+  toolChoice?: OpenAiToolChoice;
+  parallelToolCalls?: boolean;
+  /** JSON mode; the reply is validated and re-requested up to `config.jsonRetries` times. */
+  responseFormat?: ResponseFormat;
+  /** Explicit conversation key (X-Cursor-Session) instead of prefix matching. */
+  sessionKey?: string;
+  signal?: AbortSignal;
+  /** Request-scoped logger; each Cursor CLI run is logged through it. */
+  log?: Logger;
+  /** Response cache use; only consulted when `config.cache` is on. */
+  cacheMode?: CacheMode;
+  /** Called before each Cursor CLI run with the Cursor model it uses. */
+  onAttempt?: (model: string) => void;
+  /** Receives assistant text as it streams; tool-call markup is never passed here. */
+  onText?: (delta: string) => void;
+};
+
+export type CompletionResult =
+  | {
+      ok: true;
+      content: string;
+      toolCalls: OpenAiToolCall[];
+      finishReason: "stop" | "tool_calls";
+      usage: TokenUsage;
+      /** True when the reply came from a resumed Cursor chat. */
+      resumed: boolean;
+      /** True when the reply was replayed from the response cache. */
+      cached?: boolean;
+      /** The Cursor chat the reply came from, when sessions are on. */
+      sessionId?: string;
+    }
+  | {
+      ok: false;
+      code: number;
+      stderr: string;
+      cancelled?: CancelOutcome;
+      /** Cursor CLI was killed after running for `timeoutMs`. */
+      timedOut?: { timeoutMs: number };
+      errorClass?: CliErrorClass;
+      /** Some of the reply had already reached `onText`, so it cannot be retried. */
+      streamed?: boolean;
+      /** Set when JSON mode output still failed validation after every retry. */
+      invalidOutput?: { errors: string[]; attempts: number };
+    };
+
+export type CompletionFailure = Extract<CompletionResult, { ok: false }>;
+
+// Status and code for each failure class; timeouts and invalid output are handled first.
+const FAILURES: Record<CliErrorClass, { status: number; code: string }> = {
+  auth: { status: 401, code: "cursor_auth_required" },
+  forbidden: { status: 403, code: "cursor_forbidden" },
+  unknown_model: { status: 404, code: "model_not_found" },
+  rate_limit: { status: 429, code: "rate_limit_exceeded" },
+  transient: { status: 503, code: "cursor_unavailable" },
+  timeout: { status: 504, code: "cursor_cli_timeout" },
+  fatal: { status: 500, code: "cursor_cli_error" },
+};
+
+/** The HTTP error for a failed completion, classified from Cursor CLI's output. */
+export function describeFailure(result: CompletionFailure): HttpError {
+  if (result.invalidOutput) {
+    const { errors, attempts } = result.invalidOutput;
+    return new HttpError(
+      502,
+      "invalid_json_output",
+      `Model output did not match response_format after ${attempts} attempt(s): ${errors.slice(0, 5).join("; ")}`,
+      undefined,
+      { details: errors },
+    );
+  }
+  if (result.timedOut) {
+    return new HttpError(
+      504,
+      "cursor_cli_timeout",
+      `Cursor CLI did not finish within ${result.timedOut.timeoutMs}ms`,
+    );
+  }
+
+  const cls = result.errorClass ?? "fatal";
+  const { status, code } = FAILURES[cls];
+  const stderr = result.stderr.trim();
+  const message =
+    cls === "auth"
+      ? `Cursor CLI is not logged in; run \`agent login\` or set CURSOR_API_KEY. ${stderr}`
+      : `Cursor CLI failed (exit ${result.code}, ${cls}): ${stderr}`;
+  const retryAfterMs = cls === "rate_limit" ? retryAfterHintMs(stderr) : undefined;
+  return new HttpError(
+    status,
+    code,
+    message.trim(),
+    cls === "unknown_model" ? "model" : undefined,
+    retryAfterMs ? { headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } } : {},
+  );
+}
+
+/**
+ * Runs one completion through Cursor CLI: builds the prompt, resumes a stored
+ * Cursor chat when the conversation has one, streams text to `onText`, and
+ * extracts tool calls and usage. Shared by every HTTP route that talks to a model.
+ */
+export function createCompletionRunner(args: {
+  config: BridgeConfig;
+  sessions?: SessionStore;
+  metrics?: BridgeMetrics;
+  cache?: ResponseCache;
+}) {
+  const { config } = args;
+  const sessions = config.sessions ? args.sessions : undefined;
+  const { metrics, cache } = args;
+
+  async function attempt(input: CompletionInput, match: SessionMatch | undefined) {
+    const images = await materializeImages(
+      match ? match.newMessages : input.messages,
+      input.workspace,
+    );
+    try {
+      return await attemptWithMessages(input, match, images.messages);
+    } finally {
+      await images.cleanup();
+    }
+  }
+
+  async function attemptWithMessages(
+    input: CompletionInput,
+    match: SessionMatch | undefined,
+    messages: any[],
+  ) {
+    const tools = input.tools;
+    // A resumed chat already has the tool instructions; the response format
+    // is repeated every turn because it may differ per request.
+    const instructions = [
+      !match && tools.length
+        ? buildToolInstructions({
+            tools,
+            toolChoice: input.toolChoice,
+            parallelToolCalls: input.parallelToolCalls,
+          })
+        : undefined,
+      input.responseFormat ? buildResponseFormatInstructions(input.responseFormat) : undefined,
+    ].filter(Boolean);
+    const prompt = buildPromptFromMessages(messages, {
+      instructions: instructions.length ? instructions.join("\n\n") : undefined,
+    });
+
+    const settings = resolveRunSettings(config, input.model);
+    // The prompt is one argument, and the OS caps argument size; past the
+    // limit, Cursor CLI reads it from stdin instead.
+    const promptOnStdin = Buffer.byteLength(prompt) > config.promptArgMaxBytes;
+    const cmdArgs = buildCursorPrintArgs({
+      workspace: input.workspace,
+      model: settings.model,
+      mode: settings.mode,
+      force: settings.force,
+      approveMcps: settings.approveMcps,
+      prompt,
+      promptOnStdin,
+      resume: match?.entry.sessionId,
+    });
+
+    const textStream = createCursorTextStream();
+    const toolFilter = tools.length ? createToolCallFilter() : undefined;
+    let shown = "";
+    let sawDelta = false;
+
+    const emit = (content: string) => {
+      if (!content) return;
+      shown += content;
+      input.onText?.(content);
+    };
+    const forward = (delta: string) => emit(toolFilter ? toolFilter.push(delta) : delta);
+
+    const startedAt = Date.now();
+    const out = await runStreaming(config.agentBin, cmdArgs, {
+      cwd: input.workspace,
+      stdin: promptOnStdin ? prompt : undefined,
+      timeoutMs: settings.timeoutMs,
+      signal: input.signal,
+      killGraceMs: config.killGraceMs,
+      onStdoutLine(line) {
+        const ev = parseCursorStreamLine(line);
+        if (!ev) return;
+        const delta = textStream.push(ev);
+        if (!delta) return;
+        sawDelta = true;
+        forward(delta);
+      },
+    });
+
+    const entry = {
+      model: settings.model,
+      profile: settings.profile,
+      mode: settings.mode,
+      workspace: input.workspace,
+      args: redactCursorArgs(cmdArgs, promptOnStdin),
+      promptBytes: Buffer.byteLength(prompt),
+      promptOnStdin,
+      durationMs: Date.now() - startedAt,
+      exitCode: out.code,
+      cancelled: out.cancelled,
+      timedOut: out.timedOut,
+      stderr: stderrTail(out.stderr),
+    };
+    const outcome = out.cancelled ? "cancelled" : out.timedOut ? "timeout" : String(out.code);
+    metrics?.cliRuns.inc({ model: settings.model, exit_code: outcome });
+    if (out.timedOut) metrics?.cliTimeouts.inc({ model: settings.model });
+
+    const summary = out.timedOut
+      ? `agent --model ${settings.model} timed out after ${settings.timeoutMs}ms`
+      : `agent --model ${settings.model} exited ${out.code} in ${entry.durationMs}ms`;
+    if ((out.code === 0 && !out.timedOut) || out.cancelled) input.log?.info(summary, entry);
+    else input.log?.warn(summary, entry);
+
+    return {
+      out,
+      settings,
+      prompt,
+      textStream,
+      toolFilter,
+      sawDelta,
+      emit,
+      forward,
+      shown: () => shown,
+    };
+  }
+
+  async function runOnce(input: CompletionInput): Promise<CompletionResult> {
+    const seed = sessionSeed({ workspace: input.workspace, tools: input.tools });
+    const match = sessions
+      ? await sessions.find({ messages: input.messages, seed, explicitKey: input.sessionKey })
+      : undefined;
+    // The resumed chat moves on past this prefix, so it must not be resumed
+    // from here again: a retried, regenerated or edited turn would otherwise
+    // land in a chat that already holds later turns. Header keys are
+    // overwritten by `save` and refuse a prefix the chat has passed.
+    if (match && !input.sessionKey) await sessions?.delete(match.key);
+
+    let resumed = Boolean(match);
+    let run = await attempt(input, match);
+
+    // A stale or deleted Cursor chat makes --resume fail before any output;
+    // forget it and replay the whole transcript instead. A run that may act
+    // on the workspace is not replayed: it may already have edited files.
+    if (match && !run.out.cancelled && !run.out.timedOut && run.out.code !== 0 && !run.sawDelta) {
+      await sessions?.delete(match.key);
+      if (!actsOnWorkspace(run.settings)) {
+        input.log?.warn("resume failed; replaying full transcript", {
+          chatId: match.entry.sessionId,
+          exitCode: run.out.code,
+        });
+        resumed = false;
+        run = await attempt(input, undefined);
+      }
+    }
+
+    const { out } = run;
+    if (out.cancelled || out.timedOut || out.code !== 0) {
+      return {
+        ok: false,
+        code: out.code,
+        stderr: out.stderr,
+        cancelled: out.cancelled,
+        timedOut: out.timedOut ? { timeoutMs: run.settings.timeoutMs } : undefined,
+        errorClass: out.cancelled ? undefined : classifyCliFailure(out),
+        streamed: Boolean(input.onText) && run.shown().length > 0,
+      };
+    }
+
+    const text = run.textStream.text();
+    // Older CLI builds only report the answer in the final `result` event.
+    if (!run.sawDelta && text) run.forward(text);
+
+    const tail = run.toolFilter?.finish();
+    if (tail?.content) run.emit(tail.content);
+    const toolCalls = tail?.toolCalls ?? [];
+    const content = run.toolFilter ? run.shown().trim() : text.trim();
+
+    const sessionId = run.textStream.sessionId();
+    if (sessionId) await saveSession(input, sessionId, content, toolCalls);
+
+    return {
+      ok: true,
+      content,
+      toolCalls,
+      finishReason: toolCalls.length ? "tool_calls" : "stop",
+      usage: resolveUsage({
+        cursorUsage: run.textStream.usage(),
+        prompt: run.prompt,
+        completion: text,
+      }),
+      resumed,
+      sessionId: sessions ? sessionId : undefined,
+    };
+  }
+
+  /** Records that Cursor chat `sessionId` holds `input.messages` plus this reply. */
+  async function saveSession(
+    input: CompletionInput,
+    sessionId: string,
+    content: string,
+    toolCalls: OpenAiToolCall[],
+  ) {
+    if (!sessions) return;
+    const reply = toolCalls.length
+      ? { role: "assistant", content, tool_calls: toolCalls }
+      : { role: "assistant", content };
+    await sessions.save({
+      messages: [...input.messages, reply],
+      seed: sessionSeed({ workspace: input.workspace, tools: input.tools }),
+      sessionId,
+      workspace: input.workspace,
+      explicitKey: input.sessionKey,
+    });
+  }
+
+  /**
+   * `runOnce` with retries and backoff for rate limits and transient errors,
+   * then each of `config.fallbackModels` while the model stays unavailable.
+   * Nothing is retried once part of the reply has been streamed, nor when the
+   * run may act on the workspace: a failed run may already have edited files.
+   */
+  async function runWithRetries(input: CompletionInput): Promise<CompletionResult> {
+    const first = resolveRunSettings(config, input.model);
+    if (actsOnWorkspace(first)) {
+      input.onAttempt?.(first.model);
+      return runOnce(input);
+    }
+    const candidates = [input.model, ...config.fallbackModels.filter((m) => m !== input.model)];
+    let last: CompletionFailure | undefined;
+
+    for (const [index, model] of candidates.entries()) {
+      for (let retry = 0; ; retry++) {
+        input.onAttempt?.(resolveRunSettings(config, model).model);
+        const result = await runOnce({ ...input, model });
+        if (result.ok || result.cancelled || result.streamed) return result;
+        last = result;
+
+        const cls = result.errorClass ?? "fatal";
+        if (!isRetryable(cls) || retry >= config.retries) break;
+        const hint = retryAfterHintMs(result.stderr);
+        const delay =
+          hint !== undefined ? Math.min(hint, 60_000) : backoffMs(retry + 1, config.retryBaseMs);
+        input.log?.warn(`Cursor CLI failed (${cls}); retrying in ${delay}ms`, {
+          model,
+          errorClass: cls,
+          retry: retry + 1,
+        });
+        if (!(await sleep(delay, input.signal))) return result;
+      }
+
+      const next = candidates[index + 1];
+      if (!next || !warrantsFallback(last.errorClass ?? "fatal")) return last;
+      input.log?.warn(`model ${model} unavailable (${last.errorClass}); falling back to ${next}`, {
+        model,
+        fallback: next,
+        errorClass: last.errorClass,
+      });
+    }
+    return last as CompletionFailure;
+  }
+
+  /** `runWithRetries`, plus validation and retries in JSON mode. */
+  async function runValidated(input: CompletionInput): Promise<CompletionResult> {
+    const format = input.responseFormat;
+    if (!format) return runWithRetries(input);
+
+    // Text is held back until it validates, so streams get the JSON in one piece.
+    let messages = input.messages;
+    let usage: TokenUsage | undefined;
+    for (let attempts = 1; ; attempts++) {
+      const result = await runWithRetries({ ...input, messages, onText: undefined });
+      if (!result.ok) return result;
+      usage = usage ? addUsage(usage, result.usage) : result.usage;
+
+      // The chat was saved under the transcript this loop sent, retry turns
+      // included; the client continues from its own messages and the text it
+      // received, so that is what a later request must match.
+      if (result.toolCalls.length) {
+        if (result.sessionId && attempts > 1) {
+          await saveSession(input, result.sessionId, result.content, result.toolCalls);
+        }
+        if (result.content) input.onText?.(result.content);
+        return { ...result, usage };
+      }
+
+      const check = checkJsonOutput(result.content, format);
+      if (check.ok) {
+        if (result.sessionId && (attempts > 1 || check.text !== result.content)) {
+          await saveSession(input, result.sessionId, check.text, []);
+        }
+        input.onText?.(check.text);
+        return { ...result, content: check.text, usage };
+      }
+      if (attempts > config.jsonRetries) {
+        return {
+          ok: false,
+          code: 0,
+          stderr: "",
+          invalidOutput: { errors: check.errors, attempts },
+        };
+      }
+
+      input.log?.warn(`JSON output failed validation (attempt ${attempts})`, {
+        errors: check.errors,
+      });
+      messages = [
+        ...messages,
+        { role: "assistant", content: result.content },
+        { role: "user", content: buildRetryMessage(check.errors) },
+      ];
+    }
+  }
+
+  /**
+   * Cache key for `input`, or undefined when the reply must not be reused:
+   * caching is off, or the run may act on the workspace (agent mode, --force).
+   */
+  async function cacheKeyFor(input: CompletionInput): Promise<string | undefined> {
+    if (!cache || !config.cache) return undefined;
+    const settings = resolveRunSettings(config, input.model);
+    if (actsOnWorkspace(settings)) return undefined;
+    return responseCacheKey({
+      model: settings.model,
+      mode: settings.mode,
+      workspace: input.workspace,
+      messages: input.messages,
+      tools: input.tools,
+      toolChoice: input.toolChoice,
+      parallelToolCalls: input.parallelToolCalls,
+      responseFormat: input.responseFormat,
+    });
+  }
+
+  return async function runCompletion(input: CompletionInput): Promise<CompletionResult> {
+    const key = await cacheKeyFor(input);
+    const mode = input.cacheMode ?? "use";
+    if (!cache || !key) return runValidated(input);
+
+    if (mode === "use") {
+      const hit = await cache.get(key);
+      metrics?.cache.inc({ result: hit ? "hit" : "miss" });
+      if (hit) {
+        input.log?.info("response cache hit", { cacheKey: key, storedAt: hit.storedAt });
+        if (hit.content) input.onText?.(hit.content);
+        return {
+          ok: true,
+          content: hit.content,
+          // Clients match tool results by id, so a replayed call gets a new one.
+          toolCalls: hit.toolCalls.map((call) => ({ ...call, id: newToolCallId() })),
+          finishReason: hit.finishReason,
+          usage: hit.usage,
+          resumed: false,
+          cached: true,
+        };
+      }
+    } else {
+      cache.bypass();
+      metrics?.cache.inc({ result: "bypass" });
+    }
+
+    const result = await runValidated(input);
+    if (result.ok && mode !== "skip") {
+      const { content, toolCalls, finishReason, usage } = result;
+      await cache.set(key, { content, toolCalls, finishReason, usage });
+    }
+    return result;
+  };
+}
+
+export type CompletionRunner = ReturnType<typeof createCompletionRunner>;
@@ -1,44 +1,483 @@
+import { existsSync, readFileSync, watch, type FSWatcher } from "node:fs";
 import * as path from "node:path";
 
+import { parseJsonc } from "./jsonc.js";
+import { LOG_LEVELS, type Logger, type LogLevel } from "./logger.js";
+import { maxSafeArgBytes } from "./process.js";
+
 export type CursorExecutionMode = "agent" | "ask" | "plan";
 
+/**
+ * A model alias with its own Cursor CLI settings, e.g. `gpt-5.2-plan` running
+ * `gpt-5.2` in plan mode. Unset fields fall back to the global settings.
+ */
+export type ModelProfile = {
+  model: string;
+  name?: string;
+  mode?: CursorExecutionMode;
+  force?: boolean;
+  approveMcps?: boolean;
+  timeoutMs?: number;
+  /** Always run in this workspace. */
+  workspace?: string;
+  /** Whether the X-Cursor-Workspace header may pick the workspace (default: true). */
+  allowWorkspaceOverride?: boolean;
+};
+
 export type BridgeConfig = {
   agentBin: string;
   host: string;
   port: number;
+  /** Listen on a free port instead when `port` is taken. */
+  portFallback: boolean;
+  /** Records the running bridge's pid, port, version and instance secret. */
+  lockFile: string;
   requiredKey?: string;
   defaultModel: string;
   mode: CursorExecutionMode;
   force: boolean;
   approveMcps: boolean;
   strictModel: boolean;
+  /** 400 for request fields the OpenAI/Anthropic APIs do not define. */
+  rejectUnknownFields: boolean;
   workspace: string;
+  /**
+   * Directories an X-Cursor-Workspace header may point into. Empty means the
+   * configured workspace and profile workspaces only.
+   */
+  workspaceRoots: string[];
+  /** X-Cursor-Workspace must be inside a git repository. */
+  requireGitWorkspace: boolean;
+  /** Where rejected X-Cursor-Workspace headers are recorded. */
+  auditLogFile: string;
+  /** Shut down once every registered client (POST /v1/workspaces) is gone. */
+  exitWhenUnused: boolean;
   timeoutMs: number;
+  killGraceMs: number;
+  maxConcurrent: number;
+  maxConcurrentPerWorkspace: number;
+  maxQueue: number;
+  queueTimeoutMs: number;
+  /** Larger request bodies get a 413. */
+  maxBodyBytes: number;
+  /** Prompts larger than this go to Cursor CLI on stdin instead of as an argument. */
+  promptArgMaxBytes: number;
+  sessions: boolean;
+  sessionsFile: string;
+  sessionTtlMs: number;
+  jsonRetries: number;
+  /** Extra attempts for rate-limited or transient Cursor CLI failures. */
+  retries: number;
+  retryBaseMs: number;
+  /** Tried in order when the requested model is unavailable or keeps failing. */
+  fallbackModels: string[];
+  /** Reuse replies to identical requests (ask and plan mode only). */
+  cache: boolean;
+  cacheMaxEntries: number;
+  cacheTtlMs: number;
+  cachePersist: boolean;
+  cacheFile: string;
+  logFile: string;
+  logLevel: LogLevel;
+  logMaxBytes: number;
+  logMaxFiles: number;
+  /** Whether /metrics needs `requiredKey` like the API routes. */
+  metricsAuth: boolean;
+  /** Model aliases keyed by the id clients select. */
+  profiles: Record<string, ModelProfile>;
+};
+
+export type ConfigKey = keyof BridgeConfig;
+export type ConfigSource = "flag" | "env" | "file" | "default";
+export type ConfigValues = Partial<Record<ConfigKey, unknown>>;
+
+export type ConfigFileStatus = {
+  path: string;
+  loaded: boolean;
+  error?: string;
 };
 
-function envBool(name: string, defaultValue: boolean): boolean {
-  const raw = process.env[name];
-  if (raw == null) return defaultValue;
-  const v = raw.trim().toLowerCase();
-  if (v === "1" || v === "true" || v === "yes" || v === "on") return true;
-  if (v === "0" || v === "false" || v === "no" || v === "off") return false;
-  return defaultValue;
+export type ResolvedBridgeConfig = {
+  config: BridgeConfig;
+  sources: Record<ConfigKey, ConfigSource>;
+  file: ConfigFileStatus;
+  /** Command-line values, kept so a config file reload cannot override them. */
+  flags: ConfigValues;
+};
+
+/** A config file that exists but cannot be used; the message lists every problem. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
 }
 
-function envNumber(name: string, defaultValue: number): number {
-  const raw = process.env[name];
-  if (raw == null) return defaultValue;
-  const n = Number(raw);
-  return Number.isFinite(n) ? n : defaultValue;
+type FieldKind =
+  | "string"
+  | "path"
+  | "model"
+  | "mode"
+  | "level"
+  | "models"
+  | "paths"
+  | "boolean"
+  | "number"
+  | "port"
+  | "profiles";
+
+type FieldSpec = {
+  kind: FieldKind;
+  /** One line for `--help`. */
+  help: string;
+  env: string[];
+  default: () => unknown;
+  /** Applied to a running bridge when the config file changes. */
+  hot?: boolean;
+};
+
+function homeDir(): string {
+  return process.env.HOME || process.cwd();
 }
 
-function normalizeMode(raw: string | undefined): CursorExecutionMode {
-  const m = (raw || "").trim().toLowerCase();
-  if (m === "ask" || m === "plan" || m === "agent") return m;
+const FIELDS: Record<ConfigKey, FieldSpec> = {
+  agentBin: {
+    kind: "string",
+    help: "Cursor CLI executable",
+    env: ["CURSOR_AGENT_BIN", "CURSOR_CLI_BIN", "CURSOR_CLI_PATH"],
+    default: () => "agent",
+  },
+  host: {
+    kind: "string",
+    help: "address to listen on",
+    env: ["CURSOR_BRIDGE_HOST"],
+    default: () => "127.0.0.1",
+  },
+  port: {
+    kind: "port",
+    help: "port to listen on",
+    env: ["CURSOR_BRIDGE_PORT"],
+    default: () => 8765,
+  },
+  portFallback: {
+    kind: "boolean",
+    help: "listen on a free port when the port is taken",
+    env: ["CURSOR_BRIDGE_PORT_FALLBACK"],
+    default: () => true,
+  },
+  lockFile: {
+    kind: "path",
+    help: "lock file with the running bridge's pid, port and secret",
+    env: ["CURSOR_BRIDGE_LOCK_FILE"],
+    default: () =>
+      path.join(homeDir(), ".local", "share", "opencode", "cursor-openai-bridge.lock.json"),
+  },
+  requiredKey: {
+    kind: "string",
+    help: "API key clients must send",
+    env: ["CURSOR_BRIDGE_API_KEY"],
+    default: () => undefined,
+  },
+  defaultModel: {
+    kind: "model",
+    help: "model when the request names none",
+    env: ["CURSOR_BRIDGE_DEFAULT_MODEL"],
+    default: () => "auto",
+    hot: true,
+  },
   // Default to ask mode when acting as an OpenAI-compatible provider.
-  return "ask";
+  mode: {
+    kind: "mode",
+    help: "Cursor CLI mode: ask, plan or agent",
+    env: ["CURSOR_BRIDGE_MODE"],
+    default: () => "ask",
+    hot: true,
+  },
+  force: {
+    kind: "boolean",
+    help: "pass --force to Cursor CLI",
+    env: ["CURSOR_BRIDGE_FORCE"],
+    default: () => false,
+    hot: true,
+  },
+  approveMcps: {
+    kind: "boolean",
+    help: "pass --approve-mcps to Cursor CLI",
+    env: ["CURSOR_BRIDGE_APPROVE_MCPS"],
+    default: () => false,
+    hot: true,
+  },
+  strictModel: {
+    kind: "boolean",
+    help: "pin `auto` requests to the last explicitly chosen model",
+    env: ["CURSOR_BRIDGE_STRICT_MODEL"],
+    default: () => true,
+    hot: true,
+  },
+  rejectUnknownFields: {
+    kind: "boolean",
+    help: "reject requests with fields the API does not define",
+    env: ["CURSOR_BRIDGE_REJECT_UNKNOWN_FIELDS"],
+    default: () => true,
+    hot: true,
+  },
+  workspace: {
+    kind: "path",
+    help: "workspace directory for Cursor CLI",
+    env: ["CURSOR_BRIDGE_WORKSPACE"],
+    default: () => process.cwd(),
+  },
+  workspaceRoots: {
+    kind: "paths",
+    help: "comma-separated directories X-Cursor-Workspace may point into",
+    env: ["CURSOR_BRIDGE_WORKSPACE_ROOTS"],
+    default: () => [],
+    hot: true,
+  },
+  requireGitWorkspace: {
+    kind: "boolean",
+    help: "only accept X-Cursor-Workspace inside a git repository",
+    env: ["CURSOR_BRIDGE_REQUIRE_GIT_WORKSPACE"],
+    default: () => false,
+    hot: true,
+  },
+  auditLogFile: {
+    kind: "path",
+    help: "JSON-lines log of rejected workspace requests",
+    env: ["CURSOR_BRIDGE_AUDIT_LOG_FILE"],
+    default: () =>
+      path.join(homeDir(), ".local", "share", "opencode", "cursor-openai-bridge-audit.log"),
+  },
+  exitWhenUnused: {
+    kind: "boolean",
+    help: "exit when the last registered workspace client goes away",
+    env: ["CURSOR_BRIDGE_EXIT_WHEN_UNUSED"],
+    default: () => false,
+    hot: true,
+  },
+  timeoutMs: {
+    kind: "number",
+    help: "Cursor CLI run timeout",
+    env: ["CURSOR_BRIDGE_TIMEOUT_MS"],
+    default: () => 300_000,
+    hot: true,
+  },
+  killGraceMs: {
+    kind: "number",
+    help: "SIGTERM to SIGKILL grace on cancel",
+    env: ["CURSOR_BRIDGE_KILL_GRACE_MS"],
+    default: () => 5_000,
+    hot: true,
+  },
+  maxConcurrent: {
+    kind: "number",
+    help: "max concurrent Cursor CLI runs (0: unlimited)",
+    env: ["CURSOR_BRIDGE_MAX_CONCURRENT"],
+    default: () => 4,
+  },
+  maxConcurrentPerWorkspace: {
+    kind: "number",
+    help: "max concurrent runs per workspace (0: unlimited)",
+    env: ["CURSOR_BRIDGE_MAX_CONCURRENT_PER_WORKSPACE"],
+    default: () => 2,
+  },
+  maxQueue: {
+    kind: "number",
+    help: "max queued requests before 429",
+    env: ["CURSOR_BRIDGE_MAX_QUEUE"],
+    default: () => 16,
+  },
+  queueTimeoutMs: {
+    kind: "number",
+    help: "max queue wait before 408",
+    env: ["CURSOR_BRIDGE_QUEUE_TIMEOUT_MS"],
+    default: () => 120_000,
+  },
+  maxBodyBytes: {
+    kind: "number",
+    help: "max request body size before 413",
+    env: ["CURSOR_BRIDGE_MAX_BODY_BYTES"],
+    default: () => 25 * 1024 * 1024,
+    hot: true,
+  },
+  promptArgMaxBytes: {
+    kind: "number",
+    help: "send larger prompts to Cursor CLI on stdin (0: always)",
+    env: ["CURSOR_BRIDGE_PROMPT_ARG_MAX_BYTES"],
+    default: () => maxSafeArgBytes(),
+    hot: true,
+  },
+  sessions: {
+    kind: "boolean",
+    help: "resume Cursor chats for continued conversations",
+    env: ["CURSOR_BRIDGE_SESSIONS"],
+    default: () => true,
+  },
+  sessionsFile: {
+    kind: "path",
+    help: "where Cursor chat sessions are stored",
+    env: ["CURSOR_BRIDGE_SESSIONS_FILE"],
+    default: () =>
+      path.join(homeDir(), ".local", "share", "opencode", "cursor-openai-bridge-sessions.json"),
+  },
+  sessionTtlMs: {
+    kind: "number",
+    help: "how long an idle session can be resumed",
+    env: ["CURSOR_BRIDGE_SESSION_TTL_MS"],
+    default: () => 24 * 60 * 60_000,
+  },
+  jsonRetries: {
+    kind: "number",
+    help: "extra attempts for invalid JSON mode output",
+    env: ["CURSOR_BRIDGE_JSON_RETRIES"],
+    default: () => 2,
+    hot: true,
+  },
+  retries: {
+    kind: "number",
+    help: "retries for rate-limited or transient Cursor CLI failures",
+    env: ["CURSOR_BRIDGE_RETRIES"],
+    default: () => 2,
+    hot: true,
+  },
+  retryBaseMs: {
+    kind: "number",
+    help: "first retry delay; doubles on each retry",
+    env: ["CURSOR_BRIDGE_RETRY_BASE_MS"],
+    default: () => 1_000,
+    hot: true,
+  },
+  fallbackModels: {
+    kind: "models",
+    help: "comma-separated models to try when the requested one fails",
+    env: ["CURSOR_BRIDGE_FALLBACK_MODELS"],
+    default: () => [],
+    hot: true,
+  },
+  cache: {
+    kind: "boolean",
+    help: "reuse replies to identical ask/plan requests",
+    env: ["CURSOR_BRIDGE_CACHE"],
+    default: () => false,
+    hot: true,
+  },
+  cacheMaxEntries: {
+    kind: "number",
+    help: "replies kept in the cache",
+    env: ["CURSOR_BRIDGE_CACHE_MAX_ENTRIES"],
+    default: () => 200,
+  },
+  cacheTtlMs: {
+    kind: "number",
+    help: "how long a cached reply is reused",
+    env: ["CURSOR_BRIDGE_CACHE_TTL_MS"],
+    default: () => 10 * 60_000,
+  },
+  cachePersist: {
+    kind: "boolean",
+    help: "keep the cache on disk across restarts",
+    env: ["CURSOR_BRIDGE_CACHE_PERSIST"],
+    default: () => false,
+  },
+  cacheFile: {
+    kind: "path",
+    help: "where the persisted cache is stored",
+    env: ["CURSOR_BRIDGE_CACHE_FILE"],
+    default: () =>
+      path.join(homeDir(), ".local", "share", "opencode", "cursor-openai-bridge-cache.json"),
+  },
+  logFile: {
+    kind: "path",
+    help: "JSON-lines log file",
+    env: ["CURSOR_BRIDGE_LOG_FILE"],
+    default: () => path.join(homeDir(), ".local", "share", "opencode", "cursor-openai-bridge.log"),
+  },
+  logLevel: {
+    kind: "level",
+    help: "log level: debug, info, warn or error",
+    env: ["CURSOR_BRIDGE_LOG_LEVEL"],
+    default: () => "info",
+    hot: true,
+  },
+  logMaxBytes: {
+    kind: "number",
+    help: "rotate the log file past this size (0: never)",
+    env: ["CURSOR_BRIDGE_LOG_MAX_BYTES"],
+    default: () => 10 * 1024 * 1024,
+  },
+  logMaxFiles: {
+    kind: "number",
+    help: "rotated log files to keep",
+    env: ["CURSOR_BRIDGE_LOG_MAX_FILES"],
+    default: () => 3,
+  },
+  metricsAuth: {
+    kind: "boolean",
+    help: "require the API key on /metrics",
+    env: ["CURSOR_BRIDGE_METRICS_AUTH"],
+    default: () => true,
+    hot: true,
+  },
+  // Config file only: too structured for an environment variable or flag.
+  profiles: {
+    kind: "profiles",
+    help: "model aliases with their own settings",
+    env: [],
+    default: () => ({}),
+    hot: true,
+  },
+};
+
+const PROFILE_FIELDS: Record<keyof ModelProfile, FieldKind> = {
+  model: "model",
+  name: "string",
+  mode: "mode",
+  force: "boolean",
+  approveMcps: "boolean",
+  timeoutMs: "number",
+  workspace: "path",
+  allowWorkspaceOverride: "boolean",
+};
+
+export type ConfigFlag = {
+  key: ConfigKey;
+  /** e.g. `--default-model` */
+  flag: string;
+  boolean: boolean;
+  help: string;
+  env: string[];
+};
+
+/** One command-line flag per setting, named after the key in kebab-case. */
+export const CONFIG_FLAGS: ConfigFlag[] = (Object.keys(FIELDS) as ConfigKey[])
+  .filter((key) => FIELDS[key].kind !== "profiles")
+  .map((key) => ({
+    key,
+    flag: `--${key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`,
+    boolean: FIELDS[key].kind === "boolean",
+    help: FIELDS[key].help,
+    env: FIELDS[key].env,
+  }));
+
+/**
+ * Validates a command-line value for `key`. Booleans arrive as true/false,
+ * everything else as the raw string. Throws ConfigError on bad values.
+ */
+export function parseConfigFlag(key: ConfigKey, raw: string | boolean): unknown {
+  const { kind } = FIELDS[key];
+  const value = kind === "number" || kind === "port" ? Number(raw) : raw;
+  const checked = fromFile(kind, value, process.cwd());
+  if ("error" in checked) {
+    const flag = CONFIG_FLAGS.find((f) => f.key === key)?.flag ?? key;
+    // Report the text that was typed, not the number it was coerced to.
+    const got = `(got ${JSON.stringify(raw)})`;
+    throw new ConfigError(`${flag} ${checked.error.replace(/\(got .*\)$/, got)}`);
+  }
+  return checked.value;
 }
 
+export const HOT_RELOAD_KEYS = (Object.keys(FIELDS) as ConfigKey[]).filter((k) => FIELDS[k].hot);
+
 function normalizeModelId(raw: string | undefined): string | undefined {
   if (!raw) return undefined;
   const trimmed = raw.trim();
@@ -47,45 +486,326 @@ function normalizeModelId(raw: string | undefined): string | undefined {
   return parts[parts.length - 1] || undefined;
 }
 
-function getAgentBin(): string {
-  return (
-    process.env.CURSOR_AGENT_BIN ||
-    process.env.CURSOR_CLI_BIN ||
-    process.env.CURSOR_CLI_PATH ||
-    "agent"
-  );
+function splitModelList(raw: string): string[] {
+  return raw
+    .split(",")
+    .map((m) => normalizeModelId(m))
+    .filter((m): m is string => Boolean(m));
+}
+
+function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/") ? path.join(homeDir(), p.slice(1)) : p;
+}
+
+function splitPathList(raw: string): string[] {
+  return raw
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
 }
 
-function getHost(): string {
-  return process.env.CURSOR_BRIDGE_HOST || "127.0.0.1";
+/**
+ * Parses an environment variable for `kind`. Unusable values are ignored
+ * (undefined) so the next layer applies, as the bridge always has done.
+ */
+function fromEnv(kind: FieldKind, raw: string): unknown {
+  switch (kind) {
+    case "string":
+      return raw || undefined;
+    case "path":
+      return raw ? path.resolve(expandHome(raw)) : undefined;
+    case "model":
+      return normalizeModelId(raw);
+    case "mode": {
+      const m = raw.trim().toLowerCase();
+      return m === "ask" || m === "plan" || m === "agent" ? m : undefined;
+    }
+    case "level": {
+      const l = raw.trim().toLowerCase();
+      return (LOG_LEVELS as readonly string[]).includes(l) ? l : undefined;
+    }
+    case "models":
+      return splitModelList(raw);
+    case "paths":
+      return splitPathList(raw).map((p) => path.resolve(expandHome(p)));
+    case "boolean": {
+      const v = raw.trim().toLowerCase();
+      if (v === "1" || v === "true" || v === "yes" || v === "on") return true;
+      if (v === "0" || v === "false" || v === "no" || v === "off") return false;
+      return undefined;
+    }
+    case "number": {
+      const n = Number(raw);
+      return Number.isFinite(n) ? n : undefined;
+    }
+    case "port": {
+      const n = Number(raw);
+      return Number.isFinite(n) && n > 0 ? n : undefined;
+    }
+    case "profiles":
+      return undefined;
+  }
 }
 
-function getPort(): number {
-  const n = envNumber("CURSOR_BRIDGE_PORT", 8765);
-  return Number.isFinite(n) && n > 0 ? n : 8765;
+/** Checks a config file value for `kind`; returns the value or an error message. */
+function fromFile(
+  kind: FieldKind,
+  value: unknown,
+  baseDir: string,
+): { value: unknown } | { error: string } {
+  const got = `got ${JSON.stringify(value)}`;
+  switch (kind) {
+    case "string":
+      return typeof value === "string" && value
+        ? { value }
+        : { error: `must be a non-empty string (${got})` };
+    case "path":
+      return typeof value === "string" && value
+        ? { value: path.resolve(baseDir, expandHome(value)) }
+        : { error: `must be a path string (${got})` };
+    case "model": {
+      const id = typeof value === "string" ? normalizeModelId(value) : undefined;
+      return id ? { value: id } : { error: `must be a model id such as "auto" (${got})` };
+    }
+    case "mode":
+      return value === "ask" || value === "plan" || value === "agent"
+        ? { value }
+        : { error: `must be "ask", "plan" or "agent" (${got})` };
+    case "models": {
+      const list = typeof value === "string" ? splitModelList(value) : value;
+      return Array.isArray(list) && list.every((m) => typeof m === "string" && normalizeModelId(m))
+        ? { value: list.map((m) => normalizeModelId(m) as string) }
+        : { error: `must be a list of model ids (${got})` };
+    }
+    case "paths": {
+      const list = typeof value === "string" ? splitPathList(value) : value;
+      return Array.isArray(list) && list.every((p) => typeof p === "string" && p)
+        ? { value: list.map((p: string) => path.resolve(baseDir, expandHome(p))) }
+        : { error: `must be a list of directories (${got})` };
+    }
+    case "level":
+      return (LOG_LEVELS as readonly unknown[]).includes(value)
+        ? { value }
+        : { error: `must be one of ${LOG_LEVELS.join(", ")} (${got})` };
+    case "boolean":
+      return typeof value === "boolean" ? { value } : { error: `must be true or false (${got})` };
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) && value >= 0
+        ? { value }
+        : { error: `must be a non-negative number (${got})` };
+    case "port":
+      return Number.isInteger(value) && (value as number) > 0 && (value as number) < 65536
+        ? { value }
+        : { error: `must be a port number between 1 and 65535 (${got})` };
+    case "profiles":
+      return value && typeof value === "object" && !Array.isArray(value)
+        ? { value }
+        : { error: `must be an object of model aliases (${got})` };
+  }
 }
 
-function getRequiredKey(): string | undefined {
-  return process.env.CURSOR_BRIDGE_API_KEY;
+/** Validates each profile; messages name the offending `profiles.<alias>.<field>`. */
+function checkProfiles(
+  raw: Record<string, unknown>,
+  baseDir: string,
+): { value: Record<string, ModelProfile>; errors: string[] } {
+  const value: Record<string, ModelProfile> = {};
+  const errors: string[] = [];
+  for (const [alias, profile] of Object.entries(raw)) {
+    const at = `"profiles.${alias}"`;
+    if (!/^[A-Za-z0-9][A-Za-z0-9._:-]*$/.test(alias)) {
+      errors.push(`${at} is not a valid model id (letters, digits, ".", "_", ":", "-")`);
+      continue;
+    }
+    if (!profile || typeof profile !== "object" || Array.isArray(profile)) {
+      errors.push(`${at} must be an object`);
+      continue;
+    }
+    const out: Record<string, unknown> = {};
+    for (const [field, v] of Object.entries(profile)) {
+      const kind = PROFILE_FIELDS[field as keyof ModelProfile];
+      if (!kind) {
+        errors.push(`"profiles.${alias}.${field}" is not a known profile setting`);
+        continue;
+      }
+      const checked = fromFile(kind, v, baseDir);
+      if ("error" in checked) errors.push(`"profiles.${alias}.${field}" ${checked.error}`);
+      else out[field] = checked.value;
+    }
+    if (!("model" in profile)) errors.push(`${at} needs a "model"`);
+    value[alias] = out as ModelProfile;
+  }
+  return { value, errors };
 }
 
-function getWorkspace(): string {
-  const raw = process.env.CURSOR_BRIDGE_WORKSPACE;
-  return raw ? path.resolve(raw) : process.cwd();
+export function defaultConfigFile(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(homeDir(), ".config");
+  return path.join(base, "cursor-openai-bridge", "config.json");
 }
 
-export function loadBridgeConfig(): BridgeConfig {
+/**
+ * Reads and validates a JSON/JSONC config file. Returns undefined when the
+ * file does not exist; throws ConfigError listing every invalid key.
+ */
+function readConfigFile(filePath: string): ConfigValues | undefined {
+  if (!existsSync(filePath)) return undefined;
+
+  let raw: unknown;
+  try {
+    raw = parseJsonc(readFileSync(filePath, "utf8"));
+  } catch (err) {
+    throw new ConfigError(`${filePath}: invalid JSON: ${(err as Error).message}`);
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ConfigError(`${filePath}: expected a JSON object at the top level`);
+  }
+
+  const values: ConfigValues = {};
+  const errors: string[] = [];
+  const baseDir = path.dirname(filePath);
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "$schema") continue;
+    const spec = FIELDS[key as ConfigKey];
+    if (!spec) {
+      errors.push(`"${key}" is not a known setting`);
+      continue;
+    }
+    const checked = fromFile(spec.kind, value, baseDir);
+    if ("error" in checked) {
+      errors.push(`"${key}" ${checked.error}`);
+    } else if (spec.kind === "profiles") {
+      const profiles = checkProfiles(checked.value as Record<string, unknown>, baseDir);
+      errors.push(...profiles.errors);
+      values[key as ConfigKey] = profiles.value;
+    } else {
+      values[key as ConfigKey] = checked.value;
+    }
+  }
+  if (errors.length) {
+    throw new ConfigError(`${filePath}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+  }
+  return values;
+}
+
+/**
+ * Builds the effective config: command-line flags over environment variables
+ * over the config file over built-in defaults, recording where each value
+ * came from.
+ */
+export function resolveBridgeConfig(
+  opts: { configFile?: string; flags?: ConfigValues } = {},
+): ResolvedBridgeConfig {
+  const filePath = path.resolve(expandHome(opts.configFile || defaultConfigFile()));
+  // An explicitly named file must exist; the default location is optional.
+  if (opts.configFile && !existsSync(filePath)) {
+    throw new ConfigError(`${filePath}: config file not found`);
+  }
+  return resolveWithFile(filePath, opts.flags ?? {});
+}
+
+function resolveWithFile(filePath: string, flags: ConfigValues): ResolvedBridgeConfig {
+  const fileValues = readConfigFile(filePath);
+
+  const config: Record<string, unknown> = {};
+  const sources = {} as Record<ConfigKey, ConfigSource>;
+  for (const key of Object.keys(FIELDS) as ConfigKey[]) {
+    const spec = FIELDS[key];
+    const envName = spec.env.find((name) => process.env[name] != null);
+    const envValue = envName ? fromEnv(spec.kind, process.env[envName] as string) : undefined;
+
+    if (flags[key] !== undefined) {
+      config[key] = flags[key];
+      sources[key] = "flag";
+    } else if (envValue !== undefined) {
+      config[key] = envValue;
+      sources[key] = "env";
+    } else if (fileValues?.[key] !== undefined) {
+      config[key] = fileValues[key];
+      sources[key] = "file";
+    } else {
+      config[key] = spec.default();
+      sources[key] = "default";
+    }
+  }
+
   return {
-    agentBin: getAgentBin(),
-    host: getHost(),
-    port: getPort(),
-    requiredKey: getRequiredKey(),
-    defaultModel: normalizeModelId(process.env.CURSOR_BRIDGE_DEFAULT_MODEL) || "auto",
-    mode: normalizeMode(process.env.CURSOR_BRIDGE_MODE),
-    force: envBool("CURSOR_BRIDGE_FORCE", false),
-    approveMcps: envBool("CURSOR_BRIDGE_APPROVE_MCPS", false),
-    strictModel: envBool("CURSOR_BRIDGE_STRICT_MODEL", true),
-    workspace: getWorkspace(),
-    timeoutMs: envNumber("CURSOR_BRIDGE_TIMEOUT_MS", 300_000),
+    config: config as BridgeConfig,
+    sources,
+    file: { path: filePath, loaded: Boolean(fileValues) },
+    flags,
+  };
+}
+
+export function loadBridgeConfig(
+  opts: { configFile?: string; flags?: ConfigValues } = {},
+): BridgeConfig {
+  return resolveBridgeConfig(opts).config;
+}
+
+/** The effective config with secrets masked, for /health and `config print`. */
+export function redactConfig(config: BridgeConfig): Record<string, unknown> {
+  return { ...config, requiredKey: config.requiredKey ? "********" : undefined };
+}
+
+/**
+ * Watches the config file and applies hot-reloadable settings to
+ * `resolved.config` in place, so every holder of that object sees them.
+ * Invalid edits are logged and ignored; other changes need a restart.
+ * Returns a function that stops watching.
+ */
+export function watchBridgeConfig(resolved: ResolvedBridgeConfig, log: Logger): () => void {
+  const filePath = resolved.file.path;
+  const dir = path.dirname(filePath);
+  if (!existsSync(dir)) return () => undefined;
+
+  let timer: NodeJS.Timeout | undefined;
+  const reload = () => {
+    let next: ResolvedBridgeConfig;
+    try {
+      next = resolveWithFile(filePath, resolved.flags);
+    } catch (err) {
+      resolved.file.error = (err as Error).message;
+      log.error(`config not reloaded: ${(err as Error).message}`, { file: filePath });
+      return;
+    }
+
+    const current = resolved.config as Record<string, unknown>;
+    const updated = next.config as Record<string, unknown>;
+    const changed = (Object.keys(FIELDS) as ConfigKey[]).filter(
+      (k) => JSON.stringify(current[k]) !== JSON.stringify(updated[k]),
+    );
+    const applied = changed.filter((k) => FIELDS[k].hot);
+    const needRestart = changed.filter((k) => !FIELDS[k].hot);
+
+    for (const k of applied) {
+      current[k] = updated[k];
+      resolved.sources[k] = next.sources[k];
+    }
+    resolved.file = next.file;
+
+    if (applied.length) {
+      log.info(`config reloaded: ${applied.join(", ")}`, { file: filePath, keys: applied });
+    }
+    if (needRestart.length) {
+      log.warn(`restart the bridge to apply: ${needRestart.join(", ")}`, { keys: needRestart });
+    }
+  };
+
+  let watcher: FSWatcher;
+  try {
+    // Watch the directory: editors often replace the file instead of writing to it.
+    watcher = watch(dir, (_event, name) => {
+      if (name && name !== path.basename(filePath)) return;
+      clearTimeout(timer);
+      timer = setTimeout(reload, 200);
+    });
+  } catch {
+    return () => undefined;
+  }
+  watcher.unref();
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
   };
 }
@@ -0,0 +1,47 @@
+import type * as http from "node:http";
+
+import type { CompletionRunner } from "./completion.js";
+import type { BridgeConfig } from "./config.js";
+import type { Logger } from "./logger.js";
+import type { CacheMode } from "./responseCache.js";
+import type { CancelOutcome } from "./process.js";
+
+/** Per-request state for a route that runs Cursor CLI, from `BridgeContext.beginRun`. */
+export type RunScope = {
+  /** Echoed to the client as x-request-id. */
+  requestId: string;
+  workspace: string;
+  /** X-Cursor-Session header, if the client sent one. */
+  sessionKey?: string;
+  /** From the Cache-Control header. */
+  cacheMode: CacheMode;
+  /** Aborts when the client disconnects. */
+  signal: AbortSignal;
+  /** Frees the queue slot; call exactly once when the run is over. */
+  release: () => void;
+  /** Logger tagged with the request id. */
+  log: Logger;
+  /** Reports each Cursor CLI attempt in the X-Cursor-Model/X-Cursor-Attempts headers. */
+  onAttempt: (model: string) => void;
+};
+
+/** What the server hands to each API route handler. */
+export type BridgeContext = {
+  config: BridgeConfig;
+  runCompletion: CompletionRunner;
+  log: Logger;
+  /** Maps a client model id to the model or profile alias to run, honoring strictModel. */
+  resolveModel: (raw: string | undefined) => string;
+  /**
+   * Checks `model`, picks its workspace and waits for a queue slot. Throws an
+   * HttpError for an unknown model (404), a full queue (429) or a queue wait
+   * timeout (408); returns undefined when the client went away while queued.
+   */
+  beginRun: (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    model: string,
+  ) => Promise<RunScope | undefined>;
+  /** Logs a client-side cancellation for `requestId`. */
+  logCancelled: (requestId: string, cancelled: CancelOutcome) => void;
+};
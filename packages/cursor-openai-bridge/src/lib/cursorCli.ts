@@ -1,5 +1,6 @@
 import { tmpdir } from "node:os";
 
+import type { CursorExecutionMode } from "./config.js";
 import { run } from "./process.js";
 
 export type CursorCliModel = { id: string; name: string };
@@ -37,3 +38,131 @@ export async function listCursorCliModels(args: {
 
   return parseCursorCliModels(list.stdout);
 }
+
+export type CursorPrintArgs = {
+  workspace: string;
+  model: string;
+  mode: CursorExecutionMode;
+  force: boolean;
+  approveMcps: boolean;
+  prompt: string;
+  /** Leave the prompt out of the arguments; the caller writes it to stdin instead. */
+  promptOnStdin?: boolean;
+  /** Cursor chat id to continue with --resume. */
+  resume?: string;
+};
+
+export function buildCursorPrintArgs(args: CursorPrintArgs): string[] {
+  const cmdArgs: string[] = ["--print"];
+
+  // For non-interactive usage, avoid prompts that would hang the bridge.
+  if (args.approveMcps) cmdArgs.push("--approve-mcps");
+  if (args.force) cmdArgs.push("--force");
+
+  // Cursor CLI only accepts --mode=ask|plan. "agent" is the default when --mode is omitted.
+  if (args.mode !== "agent") cmdArgs.push("--mode", args.mode);
+
+  cmdArgs.push("--workspace", args.workspace);
+  cmdArgs.push("--model", args.model);
+  if (args.resume) cmdArgs.push("--resume", args.resume);
+  cmdArgs.push("--output-format", "stream-json", "--stream-partial-output");
+  if (!args.promptOnStdin) cmdArgs.push(args.prompt);
+  return cmdArgs;
+}
+
+/**
+ * `buildCursorPrintArgs` output safe to log: the prompt (last argument) is
+ * replaced. Pass `promptOnStdin` when the prompt is not among the arguments.
+ */
+export function redactCursorArgs(args: string[], promptOnStdin = false): string[] {
+  if (!args.length || promptOnStdin) return args;
+  const prompt = args[args.length - 1];
+  return [...args.slice(0, -1), `<prompt: ${prompt.length} chars>`];
+}
+
+/**
+ * One NDJSON event from `agent --output-format stream-json`. Only the fields
+ * the bridge reads are typed; everything else is passed through untouched.
+ */
+export type CursorStreamEvent = {
+  type: string;
+  subtype?: string;
+  session_id?: string;
+  message?: {
+    role?: string;
+    content?: Array<{ type?: string; text?: string }>;
+  };
+  result?: string;
+  is_error?: boolean;
+  usage?: unknown;
+  [key: string]: unknown;
+};
+
+export function parseCursorStreamLine(line: string): CursorStreamEvent | undefined {
+  try {
+    const ev = JSON.parse(line) as unknown;
+    if (!ev || typeof ev !== "object") return undefined;
+    if (typeof (ev as { type?: unknown }).type !== "string") return undefined;
+    return ev as CursorStreamEvent;
+  } catch {
+    return undefined;
+  }
+}
+
+function assistantEventText(ev: CursorStreamEvent): string {
+  const content = ev.message?.content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((p) => (p?.type === "text" && typeof p.text === "string" ? p.text : ""))
+    .join("");
+}
+
+/**
+ * Turns stream-json events into assistant text deltas.
+ *
+ * With --stream-partial-output Cursor CLI emits incremental assistant events
+ * and then repeats the finished segment as one message; the repeat is dropped.
+ * Segments are separated by tool calls.
+ */
+export function createCursorTextStream() {
+  let segment = "";
+  let text = "";
+  let result: string | undefined;
+  let usage: unknown;
+  let sessionId: string | undefined;
+
+  return {
+    push(ev: CursorStreamEvent): string {
+      if (typeof ev.session_id === "string" && ev.session_id) sessionId = ev.session_id;
+      if (ev.type === "tool_call") {
+        segment = "";
+        return "";
+      }
+      if (ev.type === "result") {
+        if (typeof ev.result === "string") result = ev.result;
+        if (ev.usage) usage = ev.usage;
+        return "";
+      }
+      if (ev.type !== "assistant") return "";
+
+      const delta = assistantEventText(ev);
+      if (!delta) return "";
+      if (segment && delta === segment) return "";
+      segment += delta;
+      text += delta;
+      return delta;
+    },
+    /** Full assistant text, falling back to the final `result` event. */
+    text(): string {
+      return text || result || "";
+    },
+    /** Raw `usage` from the final `result` event, if the CLI reported one. */
+    usage(): unknown {
+      return usage;
+    },
+    /** Cursor chat id reported by the CLI, usable with --resume. */
+    sessionId(): string | undefined {
+      return sessionId;
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { stat } from "node:fs/promises";
+
+import type { ResolvedBridgeConfig } from "./config.js";
+import { listCursorCliModels } from "./cursorCli.js";
+import { bridgeBaseURL } from "./opencodeConfig.js";
+import { run } from "./process.js";
+
+export type DoctorCheck = {
+  name: string;
+  status: "ok" | "warn" | "fail";
+  detail: string;
+};
+
+const CHECK_TIMEOUT_MS = 30_000;
+
+async function checkAgent(agentBin: string): Promise<DoctorCheck> {
+  try {
+    const res = await run(agentBin, ["--version"], { timeoutMs: CHECK_TIMEOUT_MS });
+    if (res.code !== 0) {
+      const detail = `${agentBin} --version exited ${res.code}`;
+      return { name: "cursor cli", status: "fail", detail };
+    }
+    return { name: "cursor cli", status: "ok", detail: `${agentBin} ${res.stdout.trim()}` };
+  } catch (err) {
+    return { name: "cursor cli", status: "fail", detail: (err as Error).message };
+  }
+}
+
+async function checkAuth(agentBin: string): Promise<DoctorCheck> {
+  try {
+    const res = await run(agentBin, ["status"], { timeoutMs: CHECK_TIMEOUT_MS });
+    const out = `${res.stdout}\n${res.stderr}`;
+    if (res.code !== 0 || /not (authenticated|logged in)/i.test(out)) {
+      return {
+        name: "cursor login",
+        status: "fail",
+        detail: "not logged in; run `agent login` or set CURSOR_API_KEY",
+      };
+    }
+    return { name: "cursor login", status: "ok", detail: res.stdout.trim().split("\n")[0] || "ok" };
+  } catch (err) {
+    return { name: "cursor login", status: "fail", detail: (err as Error).message };
+  }
+}
+
+async function checkModels(agentBin: string): Promise<DoctorCheck> {
+  try {
+    const models = await listCursorCliModels({ agentBin, timeoutMs: CHECK_TIMEOUT_MS * 2 });
+    return models.length
+      ? { name: "models", status: "ok", detail: `${models.length} available` }
+      : { name: "models", status: "fail", detail: "agent --list-models returned no models" };
+  } catch (err) {
+    return { name: "models", status: "fail", detail: (err as Error).message };
+  }
+}
+
+async function checkWorkspace(workspace: string): Promise<DoctorCheck> {
+  const info = await stat(workspace).catch(() => undefined);
+  return info?.isDirectory()
+    ? { name: "workspace", status: "ok", detail: workspace }
+    : { name: "workspace", status: "fail", detail: `${workspace} is not a directory` };
+}
+
+async function checkBridge(baseURL: string): Promise<DoctorCheck> {
+  try {
+    const res = await fetch(`${baseURL.replace(/\/v1$/, "")}/health`, {
+      signal: AbortSignal.timeout(3_000),
+    });
+    const body = (await res.json().catch(() => undefined)) as { version?: string } | undefined;
+    if (res.ok && body?.version) {
+      return { name: "bridge", status: "ok", detail: `running at ${baseURL} (v${body.version})` };
+    }
+    return {
+      name: "bridge",
+      status: "warn",
+      detail: `${baseURL} answers but is not a cursor-openai-bridge (HTTP ${res.status})`,
+    };
+  } catch {
+    return { name: "bridge", status: "warn", detail: `not running at ${baseURL}` };
+  }
+}
+
+/** Environment checks for `cursor-openai-bridge doctor`. */
+export async function runDoctor(resolved: ResolvedBridgeConfig): Promise<DoctorCheck[]> {
+  const { config, file } = resolved;
+  const checks: DoctorCheck[] = [
+    {
+      name: "config",
+      status: "ok",
+      detail: file.loaded ? file.path : `${file.path} (not found, using env and defaults)`,
+    },
+  ];
+  const agent = await checkAgent(config.agentBin);
+  checks.push(agent);
+  if (agent.status === "ok") {
+    checks.push(await checkAuth(config.agentBin));
+    checks.push(await checkModels(config.agentBin));
+  }
+  checks.push(await checkWorkspace(config.workspace));
+  checks.push(await checkBridge(bridgeBaseURL(config)));
+  return checks;
+}
@@ -1,5 +1,46 @@
 import * as http from "node:http";
 
+/** An error that maps to a specific HTTP status and OpenAI-style error body. */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly param?: string,
+    readonly extra: { details?: unknown; headers?: Record<string, string> } = {},
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/** OpenAI's `error.type` for a status code. */
+export function openAiErrorType(status: number): string {
+  if (status === 401) return "authentication_error";
+  if (status === 403) return "permission_error";
+  if (status === 429) return "rate_limit_error";
+  if (status >= 500) return "server_error";
+  return "invalid_request_error";
+}
+
+/** `{error: {message, type, param, code}}`, the shape OpenAI SDKs parse. */
+export function errorBody(err: HttpError) {
+  return {
+    error: {
+      message: err.message,
+      type: openAiErrorType(err.status),
+      param: err.param ?? null,
+      code: err.code,
+      ...(err.extra.details !== undefined ? { details: err.extra.details } : {}),
+    },
+  };
+}
+
+export function sendHttpError(res: http.ServerResponse, err: HttpError) {
+  for (const [name, value] of Object.entries(err.extra.headers ?? {})) res.setHeader(name, value);
+  json(res, err.status, errorBody(err));
+}
+
 export function extractBearerToken(req: http.IncomingMessage): string | undefined {
   const h = req.headers["authorization"];
   if (!h) return undefined;
@@ -13,14 +54,152 @@ export function json(res: http.ServerResponse, status: number, body: unknown) {
   res.end(JSON.stringify(body));
 }
 
-export async function readBody(req: http.IncomingMessage): Promise<string> {
+/**
+ * Returns a signal that aborts when the client goes away before the response
+ * is complete. `req` emits "close" as soon as its body has been read, so after
+ * that only the response side tells us whether the client is still there.
+ */
+export function clientAbortSignal(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): AbortSignal {
+  const controller = new AbortController();
+  const onClose = () => {
+    if (!res.writableFinished && !controller.signal.aborted) controller.abort();
+  };
+  req.on("close", () => {
+    if (!req.complete) onClose();
+  });
+  res.on("close", onClose);
+  return controller.signal;
+}
+
+/** Reads a JSON object body; anything else is a 400 `invalid_json`. */
+export async function readJsonBody<T>(req: http.IncomingMessage, maxBytes?: number): Promise<T> {
+  const raw = await readBody(req, maxBytes);
+  let body: unknown;
+  try {
+    body = JSON.parse(raw || "{}");
+  } catch (err) {
+    throw new HttpError(
+      400,
+      "invalid_json",
+      `Request body is not valid JSON: ${(err as Error).message}`,
+    );
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new HttpError(400, "invalid_json", "Request body must be a JSON object");
+  }
+  return body as T;
+}
+
+/** Rejects top-level fields outside `known`, as the OpenAI API does. */
+export function rejectUnknownFields(body: object, known: readonly string[]) {
+  const unknown = Object.keys(body).find((k) => !known.includes(k));
+  if (unknown) {
+    throw new HttpError(
+      400,
+      "unknown_parameter",
+      `Unrecognized request argument supplied: ${unknown}`,
+      unknown,
+    );
+  }
+}
+
+/** A 400 `invalid_type` for `param` unless `ok`, e.g. "`messages` must be an array". */
+export function expectParam(ok: boolean, param: string, expected: string) {
+  if (!ok) throw new HttpError(400, "invalid_type", `\`${param}\` must be ${expected}`, param);
+}
+
+/**
+ * Reads the request body as text. Past `maxBytes` (when set) it stops
+ * collecting, drains the rest and fails with a 413 `request_too_large`.
+ */
+export async function readBody(req: http.IncomingMessage, maxBytes?: number): Promise<string> {
+  const tooLarge = () =>
+    new HttpError(
+      413,
+      "request_too_large",
+      `Request body exceeds the bridge limit of ${maxBytes} bytes (CURSOR_BRIDGE_MAX_BODY_BYTES)`,
+    );
+  const declared = Number(req.headers["content-length"]);
+  if (maxBytes && declared > maxBytes) {
+    req.resume();
+    throw tooLarge();
+  }
+
   return new Promise((resolve, reject) => {
-    let data = "";
-    req.setEncoding("utf8");
-    req.on("data", (chunk) => {
-      data += chunk;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let failed = false;
+    req.on("data", (chunk: Buffer) => {
+      if (failed) return;
+      size += chunk.length;
+      if (maxBytes && size > maxBytes) {
+        failed = true;
+        chunks.length = 0;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (!failed) resolve(Buffer.concat(chunks).toString("utf8"));
     });
-    req.on("end", () => resolve(data));
     req.on("error", reject);
   });
 }
+
+/**
+ * Records which Cursor model answered and how many runs it took. Streams have
+ * sent their headers before the run ends, so they get these as trailers.
+ */
+export function setAnswerHeaders(
+  res: http.ServerResponse,
+  answer: { model: string; attempts: number },
+) {
+  const values = { "X-Cursor-Model": answer.model, "X-Cursor-Attempts": String(answer.attempts) };
+  if (!res.headersSent) {
+    for (const [name, value] of Object.entries(values)) res.setHeader(name, value);
+  } else if (!res.writableEnded) {
+    res.addTrailers(values);
+  }
+}
+
+export function startEventStream(res: http.ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    Trailer: "X-Cursor-Model, X-Cursor-Attempts",
+  });
+  res.flushHeaders();
+}
+
+export function sendEvent(res: http.ServerResponse, data: unknown) {
+  if (res.writableEnded || res.destroyed) return;
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/** Writes an SSE event with an `event:` name, as the Responses API uses. */
+export function sendNamedEvent(res: http.ServerResponse, event: string, data: unknown) {
+  if (res.writableEnded || res.destroyed) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/** Ends the stream; pass `null` for protocols without a terminal `data:` line. */
+export function endEventStream(res: http.ServerResponse, done: string | null = "[DONE]") {
+  if (res.writableEnded || res.destroyed) return;
+  res.end(done === null ? undefined : `data: ${done}\n\n`);
+}
+
+/**
+ * Writes an SSE comment line every `intervalMs` so proxies and clients do not
+ * drop a connection while Cursor CLI is thinking. Returns a stop function.
+ */
+export function startHeartbeat(res: http.ServerResponse, intervalMs: number): () => void {
+  const timer = setInterval(() => {
+    if (!res.writableEnded && !res.destroyed) res.write(": ping\n\n");
+  }, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,214 @@
+import { Buffer } from "node:buffer";
+import { copyFile, mkdtemp, realpath, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { HttpError } from "./http.js";
+import { isWithin } from "./workspaces.js";
+
+// Cursor CLI has no image flag; it reads image files the prompt points at.
+// Image parts are written to a per-request temp dir and replaced by a text
+// reference to the file before the prompt is built.
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+const EXTENSION_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+type ImageSource =
+  | { kind: "data"; mime: string; data: Buffer }
+  | { kind: "file"; mime: string; filePath: string };
+
+export type MaterializedImages = {
+  messages: any[];
+  cleanup: () => Promise<void>;
+};
+
+function imageUrlOf(part: any): unknown {
+  const v = part?.image_url;
+  return typeof v === "string" ? v : v?.url;
+}
+
+function parseImageUrl(url: unknown, param: string): ImageSource {
+  if (typeof url !== "string" || !url) {
+    throw new HttpError(
+      400,
+      "invalid_image_url",
+      "image_url.url must be a non-empty string",
+      param,
+    );
+  }
+
+  if (url.startsWith("data:")) {
+    const match = url.match(/^data:([^;,]+)((?:;[^;,]+)*),(.*)$/s);
+    if (!match) {
+      throw new HttpError(400, "invalid_image_url", "Malformed data: URL in image_url", param);
+    }
+    const mime = match[1].toLowerCase();
+    if (!IMAGE_EXTENSIONS[mime]) {
+      throw new HttpError(
+        400,
+        "unsupported_image_type",
+        `Unsupported image type ${mime}; use one of ${Object.keys(IMAGE_EXTENSIONS).join(", ")}`,
+        param,
+      );
+    }
+    const isBase64 = match[2].split(";").includes("base64");
+    let data: Buffer;
+    try {
+      data = isBase64
+        ? Buffer.from(match[3], "base64")
+        : Buffer.from(decodeURIComponent(match[3]), "utf8");
+    } catch {
+      throw new HttpError(400, "invalid_image_url", "Malformed data: URL in image_url", param);
+    }
+    if (data.length === 0) {
+      throw new HttpError(400, "invalid_image_url", "image_url data: URL is empty", param);
+    }
+    return { kind: "data", mime, data };
+  }
+
+  if (url.startsWith("file:")) {
+    let filePath: string;
+    try {
+      filePath = fileURLToPath(url);
+    } catch {
+      throw new HttpError(400, "invalid_image_url", `Invalid file URL: ${url}`, param);
+    }
+    const mime = EXTENSION_TYPES[path.extname(filePath).toLowerCase()];
+    if (!mime) {
+      throw new HttpError(
+        400,
+        "unsupported_image_type",
+        `Unsupported image file extension: ${path.basename(filePath)}`,
+        param,
+      );
+    }
+    return { kind: "file", mime, filePath };
+  }
+
+  throw new HttpError(
+    400,
+    "unsupported_image_url",
+    "Only data: and file: image URLs are supported by the Cursor bridge (remote URLs are not fetched)",
+    param,
+  );
+}
+
+/**
+ * The real path of a `file:` image, which must be a file inside the request's
+ * workspace; otherwise any client could have local images sent to Cursor.
+ * Paths outside the workspace get the same answer whether or not they exist.
+ */
+async function resolveImageFile(filePath: string, workspace: string, param: string) {
+  const [resolved, root] = await Promise.all([
+    realpath(filePath).catch(() => undefined),
+    realpath(workspace).catch(() => workspace),
+  ]);
+  if (!isWithin(resolved ?? path.resolve(filePath), root)) {
+    throw new HttpError(
+      400,
+      "image_not_allowed",
+      `Image files must be inside the workspace: ${filePath}`,
+      param,
+    );
+  }
+  const info = resolved ? await stat(resolved).catch(() => undefined) : undefined;
+  if (!resolved || !info?.isFile()) {
+    throw new HttpError(400, "image_not_found", `Image file not found: ${filePath}`, param);
+  }
+  return resolved;
+}
+
+/**
+ * Rejects content the bridge cannot pass to Cursor CLI instead of silently
+ * dropping it: unknown part types, remote image URLs, unsupported formats and
+ * image files that are missing or outside `workspace`.
+ */
+export async function validateMessageContent(messages: any[], workspace: string): Promise<void> {
+  for (const [i, m] of (messages || []).entries()) {
+    if (!Array.isArray(m?.content)) continue;
+    for (const [j, part] of m.content.entries()) {
+      if (!part || typeof part === "string") continue;
+      const param = `messages[${i}].content[${j}]`;
+      if (part.type === "text") continue;
+      if (part.type !== "image_url") {
+        throw new HttpError(
+          400,
+          "unsupported_content_type",
+          `Unsupported content part type: ${String(part.type)}`,
+          `${param}.type`,
+        );
+      }
+      const src = parseImageUrl(imageUrlOf(part), `${param}.image_url.url`);
+      if (src.kind === "file") {
+        await resolveImageFile(src.filePath, workspace, `${param}.image_url.url`);
+      }
+    }
+  }
+}
+
+export function hasImageParts(messages: any[]): boolean {
+  return (messages || []).some(
+    (m) => Array.isArray(m?.content) && m.content.some((p: any) => p?.type === "image_url"),
+  );
+}
+
+/**
+ * Writes every image part to a fresh temp dir and replaces it with a text
+ * part naming the file. Call `cleanup()` once the Cursor CLI run is over.
+ */
+export async function materializeImages(
+  messages: any[],
+  workspace: string,
+): Promise<MaterializedImages> {
+  if (!hasImageParts(messages)) {
+    return { messages, cleanup: async () => undefined };
+  }
+
+  const dir = await mkdtemp(path.join(tmpdir(), "cursor-bridge-images-"));
+  const cleanup = () => rm(dir, { recursive: true, force: true });
+  let n = 0;
+
+  try {
+    const out = [];
+    for (const [i, m] of messages.entries()) {
+      if (!Array.isArray(m?.content)) {
+        out.push(m);
+        continue;
+      }
+      const content = [];
+      for (const [j, part] of m.content.entries()) {
+        if (part?.type !== "image_url") {
+          content.push(part);
+          continue;
+        }
+        const param = `messages[${i}].content[${j}].image_url.url`;
+        const src = parseImageUrl(imageUrlOf(part), param);
+        const file = path.join(dir, `image-${++n}.${IMAGE_EXTENSIONS[src.mime]}`);
+        if (src.kind === "data") await writeFile(file, src.data);
+        else await copyFile(await resolveImageFile(src.filePath, workspace, param), file);
+        content.push({
+          type: "text",
+          text: `\n[Attached image: ${file} (read this file to view it)]\n`,
+        });
+      }
+      out.push({ ...m, content });
+    }
+    return { messages: out, cleanup };
+  } catch (err) {
+    await cleanup();
+    throw err;
+  }
+}
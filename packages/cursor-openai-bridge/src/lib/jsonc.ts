@@ -0,0 +1,220 @@
+// Index just past the string literal starting at `start` (a `"`).
+function skipString(text: string, start: number): number {
+  let i = start + 1;
+  while (i < text.length && text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+  return i + 1;
+}
+
+function stripComments(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '"') {
+      const end = skipString(text, i);
+      out += text.slice(i, end);
+      i = end;
+    } else if (text.startsWith("//", i)) {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      out += text[i++];
+    }
+  }
+  return out;
+}
+
+function stripTrailingCommas(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '"') {
+      const end = skipString(text, i);
+      out += text.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (text[i] === ",") {
+      let j = i + 1;
+      while (j < text.length && /\s/.test(text[j])) j++;
+      if (text[j] === "}" || text[j] === "]") {
+        i++;
+        continue;
+      }
+    }
+    out += text[i++];
+  }
+  return out;
+}
+
+/**
+ * Removes comments and trailing commas from JSONC text, leaving string
+ * literals untouched, so the result can go to JSON.parse.
+ */
+export function stripJsonc(text: string): string {
+  return stripTrailingCommas(stripComments(text));
+}
+
+export function parseJsonc(text: string): unknown {
+  return JSON.parse(stripJsonc(text));
+}
+
+const LITERAL = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/;
+
+export type JsoncNode =
+  | { type: "object"; start: number; end: number; properties: JsoncProperty[] }
+  | { type: "array"; start: number; end: number; items: JsoncNode[] }
+  | { type: "value"; start: number; end: number; value: unknown };
+
+export type JsoncProperty = {
+  key: string;
+  /** Offset of the key's opening quote. */
+  start: number;
+  value: JsoncNode;
+};
+
+/**
+ * Parses JSONC into a tree of nodes with source offsets (`end` is exclusive),
+ * so callers can edit the original text and keep its comments and layout.
+ */
+export function parseJsoncTree(text: string): JsoncNode {
+  let i = 0;
+
+  const fail = (msg: string): never => {
+    const line = text.slice(0, i).split("\n").length;
+    throw new SyntaxError(`${msg} at line ${line}`);
+  };
+
+  const skipTrivia = () => {
+    for (;;) {
+      while (i < text.length && /\s/.test(text[i])) i++;
+      if (text.startsWith("//", i)) {
+        while (i < text.length && text[i] !== "\n") i++;
+      } else if (text.startsWith("/*", i)) {
+        const end = text.indexOf("*/", i + 2);
+        if (end === -1) fail("Unterminated comment");
+        i = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const parseValue = (): JsoncNode => {
+    skipTrivia();
+    const start = i;
+    const ch = text[i];
+
+    if (ch === "{") {
+      i++;
+      const properties: JsoncProperty[] = [];
+      for (;;) {
+        skipTrivia();
+        if (text[i] === "}") break;
+        if (text[i] !== '"') fail("Expected a property name");
+        const keyStart = i;
+        i = skipString(text, i);
+        const key = JSON.parse(text.slice(keyStart, i)) as string;
+        skipTrivia();
+        if (text[i] !== ":") fail("Expected ':'");
+        i++;
+        properties.push({ key, start: keyStart, value: parseValue() });
+        skipTrivia();
+        if (text[i] === ",") i++;
+        else if (text[i] !== "}") fail("Expected ',' or '}'");
+      }
+      i++;
+      return { type: "object", start, end: i, properties };
+    }
+
+    if (ch === "[") {
+      i++;
+      const items: JsoncNode[] = [];
+      for (;;) {
+        skipTrivia();
+        if (text[i] === "]") break;
+        items.push(parseValue());
+        skipTrivia();
+        if (text[i] === ",") i++;
+        else if (text[i] !== "]") fail("Expected ',' or ']'");
+      }
+      i++;
+      return { type: "array", start, end: i, items };
+    }
+
+    if (ch === '"') {
+      i = skipString(text, i);
+      return { type: "value", start, end: i, value: JSON.parse(text.slice(start, i)) };
+    }
+
+    const literal = text.slice(i).match(LITERAL);
+    if (!literal) return fail("Unexpected token");
+    i += literal[0].length;
+    return { type: "value", start, end: i, value: JSON.parse(literal[0]) };
+  };
+
+  const root = parseValue();
+  skipTrivia();
+  if (i < text.length) fail("Unexpected content after the top-level value");
+  return root;
+}
+
+export function findProperty(node: JsoncNode | undefined, key: string): JsoncProperty | undefined {
+  return node?.type === "object" ? node.properties.find((p) => p.key === key) : undefined;
+}
+
+/** Leading whitespace of the line containing `offset`. */
+function lineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)?.[0] ?? "";
+}
+
+/** The file's indentation unit, guessed from its first indented line. */
+export function detectIndent(text: string): string {
+  return text.match(/^([ \t]+)\S/m)?.[1] ?? "  ";
+}
+
+/**
+ * Returns `text` with `"key": value` added as the last property of `obj`,
+ * matching the surrounding indentation and trailing-comma style. Everything
+ * else, comments included, is left byte-for-byte as it was.
+ */
+export function insertJsoncProperty(
+  text: string,
+  obj: Extract<JsoncNode, { type: "object" }>,
+  key: string,
+  value: unknown,
+): string {
+  const unit = detectIndent(text);
+  const closeAt = obj.end - 1;
+  const last = obj.properties[obj.properties.length - 1];
+  const indent = last ? lineIndent(text, last.start) : lineIndent(text, obj.start) + unit;
+  const rendered = JSON.stringify(value, null, unit).replace(/\n/g, `\n${indent}`);
+  const entry = `${JSON.stringify(key)}: ${rendered}`;
+
+  if (!last) {
+    const body = `{\n${indent}${entry}\n${lineIndent(text, obj.start)}}`;
+    return `${text.slice(0, obj.start)}${body}${text.slice(obj.end)}`;
+  }
+
+  const between = text.slice(last.value.end, closeAt);
+  const hasTrailingComma = stripComments(between).trim().startsWith(",");
+  const closeOnOwnLine = /\n[ \t]*$/.test(text.slice(0, closeAt));
+
+  if (!closeOnOwnLine) {
+    const sep = hasTrailingComma ? " " : ", ";
+    const at = hasTrailingComma ? last.value.end + between.indexOf(",") + 1 : last.value.end;
+    return `${text.slice(0, at)}${sep}${entry}${text.slice(at)}`;
+  }
+
+  // Put the new entry on its own line just above the closing brace.
+  const lineStart = text.lastIndexOf("\n", closeAt - 1) + 1;
+  const withComma = hasTrailingComma
+    ? text
+    : `${text.slice(0, last.value.end)},${text.slice(last.value.end)}`;
+  const shift = hasTrailingComma ? 0 : 1;
+  const insertAt = lineStart + shift;
+  const newLine = `${indent}${entry}${hasTrailingComma ? "," : ""}\n`;
+  return `${withComma.slice(0, insertAt)}${newLine}${withComma.slice(insertAt)}`;
+}
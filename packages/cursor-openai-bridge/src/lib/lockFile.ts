@@ -0,0 +1,141 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import {
+  linkSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import * as path from "node:path";
+
+/**
+ * What a running bridge records about itself, so clients can find its port
+ * and check that the process behind it really is this bridge.
+ */
+export type BridgeLock = {
+  pid: number;
+  /** ISO time the bridge started listening. */
+  startedAt: string;
+  host: string;
+  port: number;
+  baseURL: string;
+  version: string;
+  /** Per-instance secret; proves identity through `instanceProof`, never sent itself. */
+  secret: string;
+};
+
+export function newInstanceSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Answer to a client's `X-Bridge-Nonce`: only a process that knows the lock
+ * file's secret can compute it, so a reused pid or a stranger on the port
+ * cannot pass for the bridge.
+ */
+export function instanceProof(secret: string, nonce: string): string {
+  return createHmac("sha256", secret).update(nonce).digest("hex");
+}
+
+/**
+ * Registration proof for a workspace outside the allowed roots: only a client
+ * that can read the lock file (the same user) can compute it.
+ */
+export function workspaceProof(secret: string, workspace: string): string {
+  return instanceProof(secret, `workspace:${workspace}`);
+}
+
+export function proofMatches(expected: string, given: unknown): boolean {
+  if (typeof given !== "string" || given.length !== expected.length) return false;
+  return timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+}
+
+/**
+ * Whether `lock`'s bridge answers /health with its pid and a valid proof.
+ * `apiKey` is sent because /health sits behind the bridge's API key.
+ */
+export async function isLiveBridge(
+  lock: BridgeLock,
+  apiKey?: string,
+  timeoutMs = 1_000,
+): Promise<boolean> {
+  const nonce = randomBytes(16).toString("hex");
+  try {
+    const res = await fetch(`${lock.baseURL}/health`, {
+      headers: {
+        "X-Bridge-Nonce": nonce,
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!res.ok) return false;
+    const { instance } = (await res.json()) as { instance?: { pid?: number; proof?: string } };
+    return instance?.pid === lock.pid && instance.proof === instanceProof(lock.secret, nonce);
+  } catch {
+    return false;
+  }
+}
+
+/** The bridge that holds `file`, if it is another process and still running. */
+export async function liveLockOwner(
+  file: string,
+  apiKey?: string,
+): Promise<BridgeLock | undefined> {
+  const lock = readLockFile(file);
+  if (!lock || lock.pid === process.pid) return undefined;
+  return (await isLiveBridge(lock, apiKey)) ? lock : undefined;
+}
+
+export type LockClaim = { claimed: true } | { claimed: false; owner: BridgeLock };
+
+/**
+ * Writes the lock file, readable by the owner only, unless another live
+ * bridge holds it. The file appears atomically and complete: it is linked
+ * into place when absent, and only a stale one is replaced.
+ */
+export async function claimLockFile(
+  file: string,
+  lock: BridgeLock,
+  apiKey?: string,
+): Promise<LockClaim> {
+  mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  writeFileSync(tmp, `${JSON.stringify(lock, null, 2)}\n`, { mode: 0o600 });
+  try {
+    linkSync(tmp, file);
+    unlinkSync(tmp);
+    return { claimed: true };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+      unlinkSync(tmp);
+      throw err;
+    }
+  }
+  const owner = await liveLockOwner(file, apiKey);
+  if (owner) {
+    unlinkSync(tmp);
+    return { claimed: false, owner };
+  }
+  renameSync(tmp, file);
+  return { claimed: true };
+}
+
+export function readLockFile(file: string): BridgeLock | undefined {
+  try {
+    const lock = JSON.parse(readFileSync(file, "utf8")) as BridgeLock;
+    return Number.isInteger(lock.pid) && Number.isInteger(lock.port) ? lock : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Removes the lock file if it still belongs to `pid`; a newer bridge may own it by now. */
+export function removeLockFile(file: string, pid = process.pid) {
+  if (readLockFile(file)?.pid !== pid) return;
+  try {
+    unlinkSync(file);
+  } catch {
+    // Already gone.
+  }
+}
@@ -0,0 +1,98 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync } from "node:fs";
+import * as path from "node:path";
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug: (msg: string, fields?: LogFields) => void;
+  info: (msg: string, fields?: LogFields) => void;
+  warn: (msg: string, fields?: LogFields) => void;
+  error: (msg: string, fields?: LogFields) => void;
+  /** A logger that adds `fields` to every entry, e.g. the request id. */
+  child: (fields: LogFields) => Logger;
+};
+
+export type LoggerSettings = {
+  /** Read on every entry, so a config reload changes the level immediately. */
+  logLevel: LogLevel;
+  logFile: string;
+  logMaxBytes: number;
+  logMaxFiles: number;
+};
+
+/**
+ * Appends lines to `file`, renaming it to `file.1` (and older copies up to
+ * `file.<maxFiles>`) once it would grow past `maxBytes`.
+ */
+export function createRotatingFile(file: string, maxBytes: number, maxFiles: number) {
+  let size = existsSync(file) ? statSync(file).size : 0;
+  let broken = false;
+
+  const rotate = () => {
+    for (let n = maxFiles - 1; n >= 1; n--) {
+      if (existsSync(`${file}.${n}`)) renameSync(`${file}.${n}`, `${file}.${n + 1}`);
+    }
+    if (maxFiles > 0) renameSync(file, `${file}.1`);
+    else appendFileSync(file, "", { flag: "w" });
+    size = 0;
+  };
+
+  return (line: string) => {
+    if (broken) return;
+    try {
+      if (size === 0) mkdirSync(path.dirname(file), { recursive: true });
+      const bytes = Buffer.byteLength(line);
+      if (maxBytes > 0 && size > 0 && size + bytes > maxBytes) rotate();
+      appendFileSync(file, line);
+      size += bytes;
+    } catch (err) {
+      // Never let logging take the bridge down; report once and carry on.
+      broken = true;
+      const reason = (err as Error).message;
+      // eslint-disable-next-line no-console
+      console.error(`cursor-openai-bridge: cannot write log file ${file}: ${reason}`);
+    }
+  };
+}
+
+/**
+ * JSON-lines logger writing to the rotating `settings.logFile`. Entries at or
+ * above the level are also printed as text: info and below to stdout, warnings
+ * and errors to stderr.
+ */
+export function createLogger(settings: LoggerSettings): Logger {
+  const write = createRotatingFile(settings.logFile, settings.logMaxBytes, settings.logMaxFiles);
+
+  const make = (bound: LogFields): Logger => {
+    const log = (level: LogLevel) => (msg: string, fields?: LogFields) => {
+      if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.logLevel)) return;
+      const entry: LogFields = { time: new Date().toISOString(), level, msg, ...bound, ...fields };
+      write(`${JSON.stringify(entry)}\n`);
+      const id = entry.requestId ? ` [${entry.requestId}]` : "";
+      const text = `cursor-openai-bridge:${id} ${msg}`;
+      // eslint-disable-next-line no-console
+      if (level === "warn" || level === "error") console.error(text);
+      // eslint-disable-next-line no-console
+      else console.log(text);
+    };
+    return {
+      debug: log("debug"),
+      info: log("info"),
+      warn: log("warn"),
+      error: log("error"),
+      child: (fields) => make({ ...bound, ...fields }),
+    };
+  };
+
+  return make({});
+}
+
+/** Keeps the last `max` characters of CLI stderr for a log entry. */
+export function stderrTail(stderr: string, max = 2_000): string | undefined {
+  const trimmed = stderr.trim();
+  if (!trimmed) return undefined;
+  return trimmed.length > max ? `…${trimmed.slice(-max)}` : trimmed;
+}
@@ -0,0 +1,138 @@
+type Labels = Record<string, string>;
+
+type Series = { labels: Labels; value: number };
+
+type HistogramSeries = { labels: Labels; buckets: number[]; sum: number; count: number };
+
+/** Prometheus text-format label set, e.g. `{route="/v1/models",status="200"}`. */
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const all = { ...labels, ...extra };
+  const parts = Object.entries(all).map(
+    ([k, v]) => `${k}="${v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')}"`,
+  );
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export function createCounter(name: string, help: string) {
+  const series = new Map<string, Series>();
+  return {
+    inc(labels: Labels = {}, by = 1) {
+      const key = seriesKey(labels);
+      const s = series.get(key) ?? { labels, value: 0 };
+      s.value += by;
+      series.set(key, s);
+    },
+    render(): string[] {
+      const lines = header(name, help, "counter");
+      for (const s of series.values()) lines.push(`${name}${formatLabels(s.labels)} ${s.value}`);
+      return lines;
+    },
+  };
+}
+
+/** A gauge whose value is read when /metrics is scraped. */
+export function createGauge(name: string, help: string, read: () => number) {
+  return {
+    render(): string[] {
+      return [...header(name, help, "gauge"), `${name} ${read()}`];
+    },
+  };
+}
+
+export function createHistogram(name: string, help: string, bounds: number[]) {
+  const series = new Map<string, HistogramSeries>();
+  return {
+    observe(labels: Labels, value: number) {
+      const key = seriesKey(labels);
+      const s = series.get(key) ?? { labels, buckets: bounds.map(() => 0), sum: 0, count: 0 };
+      bounds.forEach((le, i) => {
+        if (value <= le) s.buckets[i]++;
+      });
+      s.sum += value;
+      s.count++;
+      series.set(key, s);
+    },
+    render(): string[] {
+      const lines = header(name, help, "histogram");
+      for (const s of series.values()) {
+        bounds.forEach((le, i) => {
+          lines.push(`${name}_bucket${formatLabels(s.labels, { le: String(le) })} ${s.buckets[i]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels(s.labels, { le: "+Inf" })} ${s.count}`);
+        lines.push(`${name}_sum${formatLabels(s.labels)} ${s.sum}`);
+        lines.push(`${name}_count${formatLabels(s.labels)} ${s.count}`);
+      }
+      return lines;
+    },
+  };
+}
+
+// Cursor CLI runs take seconds to minutes, so the buckets stretch that far.
+const LATENCY_BUCKETS_SECONDS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+/**
+ * The bridge's metrics, rendered in Prometheus text format by `render()`.
+ * `queue` supplies the in-flight and queued gauges at scrape time.
+ */
+export function createBridgeMetrics(queue: () => { active: number; queued: number }) {
+  const metrics = {
+    requests: createCounter(
+      "cursor_bridge_http_requests_total",
+      "HTTP requests by route, model and status.",
+    ),
+    requestDuration: createHistogram(
+      "cursor_bridge_http_request_duration_seconds",
+      "HTTP request latency by route.",
+      LATENCY_BUCKETS_SECONDS,
+    ),
+    cliRuns: createCounter(
+      "cursor_bridge_cli_runs_total",
+      "Cursor CLI runs by model and exit code.",
+    ),
+    cliTimeouts: createCounter(
+      "cursor_bridge_cli_timeouts_total",
+      "Cursor CLI runs killed for exceeding timeoutMs, by model.",
+    ),
+    modelCache: createCounter(
+      "cursor_bridge_model_cache_total",
+      "GET /v1/models lookups served from the model list cache (hit) or Cursor CLI (miss).",
+    ),
+    cache: createCounter(
+      "cursor_bridge_cache_total",
+      "Response cache lookups by result: hit, miss or bypass (Cache-Control).",
+    ),
+    streamedBytes: createCounter(
+      "cursor_bridge_streamed_bytes_total",
+      "Bytes sent on server-sent event streams (headers included), by route.",
+    ),
+    inFlight: createGauge(
+      "cursor_bridge_requests_in_flight",
+      "Cursor CLI runs in progress.",
+      () => queue().active,
+    ),
+    queued: createGauge(
+      "cursor_bridge_requests_queued",
+      "Requests waiting for a Cursor CLI slot.",
+      () => queue().queued,
+    ),
+  };
+
+  return {
+    ...metrics,
+    render(): string {
+      return `${Object.values(metrics)
+        .flatMap((m) => m.render())
+        .join("\n")}\n`;
+    },
+  };
+}
+
+export type BridgeMetrics = ReturnType<typeof createBridgeMetrics>;
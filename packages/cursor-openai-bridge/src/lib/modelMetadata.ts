@@ -0,0 +1,53 @@
+import type { CursorCliModel } from "./cursorCli.js";
+
+/** A model entry as OpenCode reads it under `provider.<id>.models`. */
+export type OpencodeModelEntry = {
+  name: string;
+  limit?: { context: number; output: number };
+  attachment?: boolean;
+  reasoning?: boolean;
+  tool_call?: boolean;
+};
+
+type ModelFamily = {
+  match: RegExp;
+  limit?: { context: number; output: number };
+  attachment?: boolean;
+  reasoning?: boolean;
+};
+
+// Published limits of the model families Cursor CLI offers. Cursor may cap
+// them lower; unknown ids get no limits and OpenCode's defaults apply.
+const FAMILIES: ModelFamily[] = [
+  {
+    match: /^gpt-5/,
+    limit: { context: 400_000, output: 128_000 },
+    attachment: true,
+    reasoning: true,
+  },
+  { match: /^(claude-)?sonnet-4/, limit: { context: 200_000, output: 64_000 }, attachment: true },
+  { match: /^(claude-)?opus-4\.5/, limit: { context: 200_000, output: 64_000 }, attachment: true },
+  { match: /^(claude-)?opus-4/, limit: { context: 200_000, output: 32_000 }, attachment: true },
+  {
+    match: /^gemini-(2\.5|3)-pro/,
+    limit: { context: 1_048_576, output: 65_536 },
+    attachment: true,
+    reasoning: true,
+  },
+  { match: /^gemini-.*flash/, limit: { context: 1_048_576, output: 65_536 }, attachment: true },
+  { match: /^grok/, limit: { context: 256_000, output: 32_000 } },
+  { match: /^composer/, limit: { context: 200_000, output: 32_000 } },
+];
+
+/**
+ * OpenCode metadata for a Cursor model: display name, context/output limits
+ * and capabilities. Tool calling is always on because the bridge provides it.
+ */
+export function opencodeModelEntry(model: CursorCliModel): OpencodeModelEntry {
+  const family = FAMILIES.find((f) => f.match.test(model.id));
+  const entry: OpencodeModelEntry = { name: model.name, tool_call: true };
+  if (family?.limit) entry.limit = family.limit;
+  if (family?.attachment) entry.attachment = true;
+  if (family?.reasoning || /thinking|reasoning|-high$/.test(model.id)) entry.reasoning = true;
+  return entry;
+}
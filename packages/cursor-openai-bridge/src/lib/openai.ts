@@ -1,7 +1,41 @@
+import { formatToolCallsForPrompt } from "./tools.js";
+import type { TokenUsage } from "./usage.js";
+
+export type OpenAiTool = {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: unknown;
+  };
+};
+
+export type OpenAiToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+export type OpenAiToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
 export type OpenAiChatCompletionRequest = {
   model?: string;
   messages: any[];
   stream?: boolean;
+  tools?: OpenAiTool[];
+  tool_choice?: OpenAiToolChoice;
+  parallel_tool_calls?: boolean;
+  response_format?: unknown;
+  stream_options?: { include_usage?: boolean };
+};
+
+export type BuildPromptOptions = {
+  /** Extra system text, e.g. tool instructions from `buildToolInstructions`. */
+  instructions?: string;
 };
 
 export function normalizeModelId(raw: string | undefined): string | undefined {
@@ -13,7 +47,7 @@ export function normalizeModelId(raw: string | undefined): string | undefined {
   return parts[parts.length - 1] || undefined;
 }
 
-function messageContentToText(content: any): string {
+export function messageContentToText(content: any): string {
   if (typeof content === "string") return content;
   if (Array.isArray(content)) {
     return content
@@ -28,13 +62,25 @@ function messageContentToText(content: any): string {
   return "";
 }
 
-export function buildPromptFromMessages(messages: any[]): string {
+export function buildPromptFromMessages(messages: any[], opts: BuildPromptOptions = {}): string {
   const systemParts: string[] = [];
   const convo: string[] = [];
+  const toolNames = new Map<string, string>();
 
   for (const m of messages || []) {
     const role = m?.role;
     const text = messageContentToText(m?.content);
+    const toolCalls: OpenAiToolCall[] = Array.isArray(m?.tool_calls) ? m.tool_calls : [];
+
+    if (role === "assistant" && toolCalls.length) {
+      for (const c of toolCalls) {
+        if (c?.id && c.function?.name) toolNames.set(c.id, c.function.name);
+      }
+      const calls = formatToolCallsForPrompt(toolCalls);
+      convo.push(`Assistant: ${text ? `${text}\n` : ""}${calls}`);
+      continue;
+    }
+
     if (!text) continue;
 
     if (role === "system" || role === "developer") {
@@ -49,15 +95,65 @@ export function buildPromptFromMessages(messages: any[]): string {
       convo.push(`Assistant: ${text}`);
       continue;
     }
-    if (role === "tool" || role === "function") {
-      convo.push(`Tool: ${text}`);
+    if (role === "tool") {
+      const id = typeof m?.tool_call_id === "string" ? m.tool_call_id : undefined;
+      const name = (id && toolNames.get(id)) || m?.name;
+      const label = [name, id ? `tool_call_id=${id}` : ""].filter(Boolean).join(", ");
+      convo.push(label ? `Tool (${label}): ${text}` : `Tool: ${text}`);
+      continue;
+    }
+    if (role === "function") {
+      convo.push(m?.name ? `Tool (${m.name}): ${text}` : `Tool: ${text}`);
       continue;
     }
   }
 
+  if (opts.instructions) systemParts.push(opts.instructions);
+
   const system = systemParts.length
     ? `System:\n${systemParts.join("\n\n")}\n\n`
     : "";
   const transcript = convo.join("\n\n");
   return system + transcript + "\n\nAssistant:";
 }
+
+export type ChatCompletionChunkArgs = {
+  id: string;
+  created: number;
+  model: string;
+  delta: Record<string, unknown>;
+  finishReason: string | null;
+};
+
+export function chatCompletionChunk(args: ChatCompletionChunkArgs) {
+  return {
+    id: args.id,
+    object: "chat.completion.chunk",
+    created: args.created,
+    model: args.model,
+    choices: [
+      {
+        index: 0,
+        delta: args.delta,
+        finish_reason: args.finishReason,
+      },
+    ],
+  };
+}
+
+/** Final chunk sent when the request asked for `stream_options.include_usage`. */
+export function chatCompletionUsageChunk(args: {
+  id: string;
+  created: number;
+  model: string;
+  usage: TokenUsage;
+}) {
+  return {
+    id: args.id,
+    object: "chat.completion.chunk",
+    created: args.created,
+    model: args.model,
+    choices: [],
+    usage: args.usage,
+  };
+}
@@ -0,0 +1,43 @@
+import type { BridgeConfig } from "./config.js";
+import type { CursorCliModel } from "./cursorCli.js";
+import { opencodeModelEntry, type OpencodeModelEntry } from "./modelMetadata.js";
+
+export const OPENCODE_PROVIDER_ID = "cursor";
+
+export function bridgeBaseURL(config: BridgeConfig): string {
+  // A wildcard listen address is not something clients can connect to.
+  const host = config.host === "0.0.0.0" || config.host === "::" ? "127.0.0.1" : config.host;
+  return `http://${host.includes(":") ? `[${host}]` : host}:${config.port}/v1`;
+}
+
+/** `provider.cursor.models` entries: Cursor models plus profile aliases, with metadata. */
+export function opencodeModels(
+  config: BridgeConfig,
+  models: CursorCliModel[],
+): Record<string, OpencodeModelEntry> {
+  const out: Record<string, OpencodeModelEntry> = {};
+  for (const m of models) out[m.id] = opencodeModelEntry(m);
+  for (const [id, p] of Object.entries(config.profiles)) {
+    const base = models.find((m) => m.id === p.model) ?? { id: p.model, name: p.model };
+    out[id] = {
+      ...opencodeModelEntry(base),
+      name: p.name ?? `${base.name} (${p.mode ?? config.mode})`,
+    };
+  }
+  if (!Object.keys(out).length) out.auto = { name: "Auto", tool_call: true };
+  return out;
+}
+
+/** The `provider.cursor` block for opencode.json, pointed at this bridge. */
+export function buildOpencodeProvider(args: { config: BridgeConfig; models: CursorCliModel[] }) {
+  const { config } = args;
+  return {
+    npm: "@ai-sdk/openai-compatible",
+    name: "Cursor (Local Bridge)",
+    options: {
+      baseURL: bridgeBaseURL(config),
+      apiKey: config.requiredKey ?? "unused",
+    },
+    models: opencodeModels(config, args.models),
+  };
+}
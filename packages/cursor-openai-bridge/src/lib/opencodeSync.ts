@@ -0,0 +1,128 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+
+import type { BridgeConfig } from "./config.js";
+import type { CursorCliModel } from "./cursorCli.js";
+import { findProperty, insertJsoncProperty, parseJsoncTree, type JsoncNode } from "./jsonc.js";
+import { buildOpencodeProvider, OPENCODE_PROVIDER_ID } from "./opencodeConfig.js";
+import { unifiedDiff } from "./textDiff.js";
+
+export type OpencodeSyncPlan = {
+  file: string;
+  exists: boolean;
+  before: string;
+  after: string;
+  /** Model ids that will be added. */
+  added: string[];
+  /** Model ids already configured, left untouched (user overrides win). */
+  kept: string[];
+  /** Configured model ids Cursor no longer lists; reported, never removed. */
+  stale: string[];
+  diff: string;
+};
+
+const NEW_CONFIG = `{\n  "$schema": "https://opencode.ai/config.json"\n}\n`;
+
+/**
+ * OpenCode's global config: opencode.jsonc if present, else opencode.json
+ * (which is created when neither exists).
+ */
+export function defaultOpencodeConfigPath(): string {
+  const base =
+    process.env.XDG_CONFIG_HOME || path.join(process.env.HOME || process.cwd(), ".config");
+  const dir = path.join(base, "opencode");
+  const jsonc = path.join(dir, "opencode.jsonc");
+  return existsSync(jsonc) ? jsonc : path.join(dir, "opencode.json");
+}
+
+function asObject(node: JsoncNode | undefined, where: string) {
+  if (!node) return undefined;
+  if (node.type !== "object") throw new Error(`${where} must be a JSON object`);
+  return node;
+}
+
+/**
+ * Works out the edit that adds missing Cursor models to `provider.cursor` in
+ * an OpenCode config. Existing entries, other keys and comments are kept as
+ * they are; the provider block is created when absent.
+ */
+export async function planOpencodeSync(args: {
+  file: string;
+  config: BridgeConfig;
+  models: CursorCliModel[];
+}): Promise<OpencodeSyncPlan> {
+  const exists = existsSync(args.file);
+  const before = exists ? await readFile(args.file, "utf8") : "";
+  const block = buildOpencodeProvider({ config: args.config, models: args.models });
+  const wanted = Object.keys(block.models);
+  const fileName = path.basename(args.file);
+
+  let text = exists ? before : NEW_CONFIG;
+  const parse = () => {
+    try {
+      return asObject(parseJsoncTree(text), fileName) as Extract<JsoncNode, { type: "object" }>;
+    } catch (err) {
+      throw new Error(`${args.file}: ${(err as Error).message}`);
+    }
+  };
+
+  let root = parse();
+  const provider = asObject(findProperty(root, "provider")?.value, "provider");
+  const cursor = asObject(
+    findProperty(provider, OPENCODE_PROVIDER_ID)?.value,
+    `provider.${OPENCODE_PROVIDER_ID}`,
+  );
+  const models = asObject(
+    findProperty(cursor, "models")?.value,
+    `provider.${OPENCODE_PROVIDER_ID}.models`,
+  );
+
+  let added: string[] = [];
+  let kept: string[] = [];
+  let stale: string[] = [];
+
+  if (!provider) {
+    text = insertJsoncProperty(text, root, "provider", { [OPENCODE_PROVIDER_ID]: block });
+    added = wanted;
+  } else if (!cursor) {
+    text = insertJsoncProperty(text, provider, OPENCODE_PROVIDER_ID, block);
+    added = wanted;
+  } else if (!models) {
+    text = insertJsoncProperty(text, cursor, "models", block.models);
+    added = wanted;
+  } else {
+    const existing = models.properties.map((p) => p.key);
+    kept = wanted.filter((id) => existing.includes(id));
+    stale = existing.filter((id) => !wanted.includes(id));
+    added = wanted.filter((id) => !existing.includes(id));
+    for (const id of added) {
+      // Offsets move after each insert, so re-locate the models object.
+      root = parse();
+      const node = findProperty(
+        findProperty(findProperty(root, "provider")?.value, OPENCODE_PROVIDER_ID)?.value,
+        "models",
+      )?.value as Extract<JsoncNode, { type: "object" }>;
+      text = insertJsoncProperty(text, node, id, block.models[id]);
+    }
+  }
+
+  return {
+    file: args.file,
+    exists,
+    before,
+    after: text,
+    added,
+    kept,
+    stale,
+    diff: unifiedDiff(before, text, fileName),
+  };
+}
+
+/** Writes a planned sync atomically. */
+export async function applyOpencodeSync(plan: OpencodeSyncPlan): Promise<void> {
+  await mkdir(path.dirname(plan.file), { recursive: true });
+  const tmp = `${plan.file}.${process.pid}.tmp`;
+  await writeFile(tmp, plan.after, "utf8");
+  await rename(tmp, plan.file);
+}
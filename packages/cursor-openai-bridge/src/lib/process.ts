@@ -1,22 +1,114 @@
-import { spawn } from "node:child_process";
+import { spawn, type ChildProcess } from "node:child_process";
+import type { Writable } from "node:stream";
 
 export type RunResult = {
   code: number;
   stdout: string;
   stderr: string;
+  /** Set when the run was stopped through `RunOptions.signal`. */
+  cancelled?: CancelOutcome;
 };
 
 export type RunOptions = {
   cwd?: string;
+  /** Written to the child's stdin; without it, stdin is closed right away. */
+  stdin?: string;
   timeoutMs?: number;
+  /** Aborting sends SIGTERM, then SIGKILL if the child is still alive after `killGraceMs`. */
+  signal?: AbortSignal;
+  killGraceMs?: number;
 };
 
+export type CancelOutcome = {
+  /** The last signal that had to be sent before the child exited. */
+  killedWith: "SIGTERM" | "SIGKILL";
+  /** Time from abort to child exit. */
+  elapsedMs: number;
+};
+
+export type StreamRunOptions = RunOptions & {
+  onStdoutLine: (line: string) => void;
+};
+
+export type StreamRunResult = {
+  code: number;
+  stderr: string;
+  cancelled?: CancelOutcome;
+  /** The child was killed for running longer than `timeoutMs`. */
+  timedOut?: boolean;
+};
+
+const DEFAULT_KILL_GRACE_MS = 5_000;
+
+/**
+ * The largest single argument, in bytes, that is safe to pass to a child.
+ * Linux caps each argument at 128 KiB, macOS caps arguments plus environment
+ * at 1 MiB and Windows a whole command line at 32767 characters; the values
+ * leave room for the rest of the command and the environment.
+ */
+export function maxSafeArgBytes(platform: NodeJS.Platform = process.platform): number {
+  if (platform === "win32") return 16 * 1024;
+  if (platform === "darwin") return 512 * 1024;
+  return 120 * 1024;
+}
+
+function spawnError(cmd: string, err: NodeJS.ErrnoException): Error {
+  if (err?.code === "ENOENT") {
+    return new Error(
+      `Command not found: ${cmd}. Install Cursor CLI (agent) or set CURSOR_AGENT_BIN to its path.`,
+    );
+  }
+  return err;
+}
+
+/**
+ * Wires `opts.signal` to the child: SIGTERM on abort, SIGKILL after the grace
+ * period. `outcome()` reports what was needed once the child has exited.
+ */
+function watchAbort(child: ChildProcess, opts: RunOptions) {
+  const signal = opts.signal;
+  let abortedAt: number | undefined;
+  let killedWith: CancelOutcome["killedWith"] = "SIGTERM";
+  let killTimer: NodeJS.Timeout | undefined;
+
+  const onAbort = () => {
+    abortedAt = Date.now();
+    child.kill("SIGTERM");
+    killTimer = setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) {
+        killedWith = "SIGKILL";
+        child.kill("SIGKILL");
+      }
+    }, opts.killGraceMs ?? DEFAULT_KILL_GRACE_MS);
+  };
+
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+
+  return {
+    outcome(): CancelOutcome | undefined {
+      if (killTimer) clearTimeout(killTimer);
+      signal?.removeEventListener("abort", onAbort);
+      if (abortedAt === undefined) return undefined;
+      return { killedWith, elapsedMs: Date.now() - abortedAt };
+    },
+  };
+}
+
+/** Sends `input`, if any, to the child and closes its stdin. */
+function writeStdin(stdin: Writable, input: string | undefined) {
+  // A child that exits without reading everything makes the write fail with
+  // EPIPE; its exit code and stderr already say what went wrong.
+  stdin.on("error", () => {});
+  stdin.end(input);
+}
+
 export function run(cmd: string, args: string[], opts: RunOptions = {}): Promise<RunResult> {
   return new Promise((resolve, reject) => {
     const child = spawn(cmd, args, {
       cwd: opts.cwd,
       env: process.env,
-      stdio: ["ignore", "pipe", "pipe"],
+      stdio: ["pipe", "pipe", "pipe"],
     });
 
     const timeoutMs = opts.timeoutMs;
@@ -26,6 +118,7 @@ export function run(cmd: string, args: string[], opts: RunOptions = {}): Promise
             child.kill("SIGKILL");
           }, timeoutMs)
         : undefined;
+    const abort = watchAbort(child, opts);
 
     let stdout = "";
     let stderr = "";
@@ -37,20 +130,84 @@ export function run(cmd: string, args: string[], opts: RunOptions = {}): Promise
 
     child.on("error", (err: NodeJS.ErrnoException) => {
       if (timeout) clearTimeout(timeout);
-      if (err?.code === "ENOENT") {
-        reject(
-          new Error(
-            `Command not found: ${cmd}. Install Cursor CLI (agent) or set CURSOR_AGENT_BIN to its path.`,
-          ),
-        );
-        return;
+      abort.outcome();
+      reject(spawnError(cmd, err));
+    });
+    writeStdin(child.stdin, opts.stdin);
+
+    child.on("close", (code) => {
+      if (timeout) clearTimeout(timeout);
+      resolve({ code: code ?? 0, stdout, stderr, cancelled: abort.outcome() });
+    });
+  });
+}
+
+/**
+ * Streaming counterpart to `run()`: stdout is split into lines and handed to
+ * `onStdoutLine` as soon as each line is complete instead of being buffered.
+ * Only stderr is collected for the result.
+ */
+export function runStreaming(
+  cmd: string,
+  args: string[],
+  opts: StreamRunOptions,
+): Promise<StreamRunResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(cmd, args, {
+      cwd: opts.cwd,
+      env: process.env,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    let timedOut = false;
+    const timeoutMs = opts.timeoutMs;
+    const timeout =
+      typeof timeoutMs === "number" && timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            child.kill("SIGKILL");
+          }, timeoutMs)
+        : undefined;
+    const abort = watchAbort(child, opts);
+
+    let pending = "";
+    let stderr = "";
+
+    const emit = (line: string) => {
+      const trimmed = line.replace(/\r$/, "");
+      if (trimmed.trim()) opts.onStdoutLine(trimmed);
+    };
+
+    child.stdout.setEncoding("utf8");
+    child.stderr.setEncoding("utf8");
+    child.stdout.on("data", (c: string) => {
+      pending += c;
+      let idx = pending.indexOf("\n");
+      while (idx !== -1) {
+        emit(pending.slice(0, idx));
+        pending = pending.slice(idx + 1);
+        idx = pending.indexOf("\n");
       }
-      reject(err);
     });
+    child.stderr.on("data", (c) => (stderr += c));
+
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      if (timeout) clearTimeout(timeout);
+      abort.outcome();
+      reject(spawnError(cmd, err));
+    });
+    writeStdin(child.stdin, opts.stdin);
 
     child.on("close", (code) => {
       if (timeout) clearTimeout(timeout);
-      resolve({ code: code ?? 0, stdout, stderr });
+      if (pending) emit(pending);
+      pending = "";
+      resolve({
+        code: code ?? 0,
+        stderr,
+        cancelled: abort.outcome(),
+        timedOut: timedOut || undefined,
+      });
     });
   });
 }
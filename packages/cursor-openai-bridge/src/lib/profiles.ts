@@ -0,0 +1,84 @@
+import type { BridgeConfig, CursorExecutionMode, ModelProfile } from "./config.js";
+
+/** Cursor CLI settings for one run, after applying a model profile. */
+export type RunSettings = {
+  model: string;
+  mode: CursorExecutionMode;
+  force: boolean;
+  approveMcps: boolean;
+  timeoutMs: number;
+  profile?: string;
+};
+
+export function findProfile(config: BridgeConfig, model: string): ModelProfile | undefined {
+  return Object.hasOwn(config.profiles, model) ? config.profiles[model] : undefined;
+}
+
+/** Maps a requested model id (possibly a profile alias) to Cursor CLI settings. */
+export function resolveRunSettings(config: BridgeConfig, model: string): RunSettings {
+  const profile = findProfile(config, model);
+  if (!profile) {
+    return {
+      model,
+      mode: config.mode,
+      force: config.force,
+      approveMcps: config.approveMcps,
+      timeoutMs: config.timeoutMs,
+    };
+  }
+  return {
+    model: profile.model,
+    mode: profile.mode ?? config.mode,
+    force: profile.force ?? config.force,
+    approveMcps: profile.approveMcps ?? config.approveMcps,
+    timeoutMs: profile.timeoutMs ?? config.timeoutMs,
+    profile: model,
+  };
+}
+
+/**
+ * Whether a run may edit files or run commands (agent mode, --force), so it
+ * must neither be replayed from cache nor run again after a failure.
+ */
+export function actsOnWorkspace(settings: RunSettings): boolean {
+  return settings.mode === "agent" || settings.force;
+}
+
+/** Whether the X-Cursor-Workspace header may pick the workspace for `model`. */
+export function allowsWorkspaceOverride(config: BridgeConfig, model: string): boolean {
+  return findProfile(config, model)?.allowWorkspaceOverride !== false;
+}
+
+/**
+ * Picks the workspace for a run: the X-Cursor-Workspace header unless the
+ * profile forbids it, then the profile's workspace, then the global one.
+ */
+export function resolveWorkspace(
+  config: BridgeConfig,
+  model: string,
+  headerWorkspace: string | undefined,
+): string {
+  if (headerWorkspace && allowsWorkspaceOverride(config, model)) return headerWorkspace;
+  return findProfile(config, model)?.workspace ?? config.workspace;
+}
+
+/** Extra `/v1/models` entries, one per profile. */
+export function profileModelEntries(config: BridgeConfig) {
+  return Object.entries(config.profiles).map(([id, p]) => {
+    const settings = resolveRunSettings(config, id);
+    return {
+      id,
+      object: "model",
+      owned_by: "cursor",
+      name: p.name ?? `${p.model} (${settings.mode}${settings.force ? ", force" : ""})`,
+      profile: {
+        model: settings.model,
+        mode: settings.mode,
+        force: settings.force,
+        approveMcps: settings.approveMcps,
+        timeoutMs: settings.timeoutMs,
+        workspace: p.workspace,
+      },
+    };
+  });
+}
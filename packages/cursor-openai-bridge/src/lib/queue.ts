@@ -0,0 +1,134 @@
+export type RequestQueueOptions = {
+  /** Max Cursor CLI runs overall. 0 or less means unlimited. */
+  maxConcurrent: number;
+  /** Max Cursor CLI runs per workspace. 0 or less means unlimited. */
+  maxPerWorkspace: number;
+  /** Max requests waiting for a slot before new ones are rejected. */
+  maxQueue: number;
+  /** How long a request may wait for a slot. 0 or less means forever. */
+  queueTimeoutMs: number;
+};
+
+export type QueueSlot =
+  | { ok: true; release: () => void }
+  | { ok: false; reason: "queue_full" | "queue_timeout" | "cancelled"; retryAfterSec: number };
+
+export type QueueStats = {
+  active: number;
+  queued: number;
+  activeByWorkspace: Record<string, number>;
+  maxConcurrent: number;
+  maxPerWorkspace: number;
+  maxQueue: number;
+};
+
+type Waiter = {
+  workspace: string;
+  grant: () => void;
+};
+
+/**
+ * FIFO limiter for Cursor CLI runs. Waiters are served in arrival order,
+ * skipping over any whose workspace is still at its per-workspace limit.
+ */
+export function createRequestQueue(opts: RequestQueueOptions) {
+  const waiters: Waiter[] = [];
+  const activeByWorkspace = new Map<string, number>();
+  let active = 0;
+  // Rolling average of how long a slot is held, used for Retry-After hints.
+  let avgHoldMs = 30_000;
+
+  const canRun = (workspace: string) =>
+    (opts.maxConcurrent <= 0 || active < opts.maxConcurrent) &&
+    (opts.maxPerWorkspace <= 0 || (activeByWorkspace.get(workspace) ?? 0) < opts.maxPerWorkspace);
+
+  const retryAfterSec = () => {
+    const perSlot = avgHoldMs / Math.max(1, opts.maxConcurrent);
+    return Math.max(1, Math.ceil(((waiters.length + 1) * perSlot) / 1000));
+  };
+
+  const take = (workspace: string): (() => void) => {
+    active++;
+    activeByWorkspace.set(workspace, (activeByWorkspace.get(workspace) ?? 0) + 1);
+    const startedAt = Date.now();
+    let released = false;
+
+    return () => {
+      if (released) return;
+      released = true;
+      active--;
+      const n = (activeByWorkspace.get(workspace) ?? 1) - 1;
+      if (n > 0) activeByWorkspace.set(workspace, n);
+      else activeByWorkspace.delete(workspace);
+      avgHoldMs = avgHoldMs * 0.8 + (Date.now() - startedAt) * 0.2;
+      drain();
+    };
+  };
+
+  const drain = () => {
+    for (let i = 0; i < waiters.length; ) {
+      const w = waiters[i];
+      if (canRun(w.workspace)) {
+        waiters.splice(i, 1);
+        w.grant();
+      } else {
+        i++;
+      }
+    }
+  };
+
+  return {
+    acquire(workspace: string, signal?: AbortSignal): Promise<QueueSlot> {
+      if (signal?.aborted) {
+        return Promise.resolve({ ok: false, reason: "cancelled", retryAfterSec: 0 });
+      }
+      if (waiters.length === 0 && canRun(workspace)) {
+        return Promise.resolve({ ok: true, release: take(workspace) });
+      }
+      if (waiters.length >= opts.maxQueue) {
+        return Promise.resolve({ ok: false, reason: "queue_full", retryAfterSec: retryAfterSec() });
+      }
+
+      return new Promise((resolve) => {
+        let timer: NodeJS.Timeout | undefined;
+
+        const leave = (reason: "queue_timeout" | "cancelled") => {
+          const idx = waiters.indexOf(waiter);
+          if (idx !== -1) waiters.splice(idx, 1);
+          if (timer) clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          resolve({ ok: false, reason, retryAfterSec: retryAfterSec() });
+        };
+        const onAbort = () => leave("cancelled");
+
+        const waiter: Waiter = {
+          workspace,
+          grant: () => {
+            if (timer) clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+            resolve({ ok: true, release: take(workspace) });
+          },
+        };
+
+        waiters.push(waiter);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        if (opts.queueTimeoutMs > 0) {
+          timer = setTimeout(() => leave("queue_timeout"), opts.queueTimeoutMs);
+        }
+      });
+    },
+
+    stats(): QueueStats {
+      return {
+        active,
+        queued: waiters.length,
+        activeByWorkspace: Object.fromEntries(activeByWorkspace),
+        maxConcurrent: opts.maxConcurrent,
+        maxPerWorkspace: opts.maxPerWorkspace,
+        maxQueue: opts.maxQueue,
+      };
+    },
+  };
+}
+
+export type RequestQueue = ReturnType<typeof createRequestQueue>;
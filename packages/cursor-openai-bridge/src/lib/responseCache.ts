@@ -0,0 +1,182 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import type { OpenAiToolCall } from "./openai.js";
+import { canonicalMessage } from "./sessions.js";
+import type { TokenUsage } from "./usage.js";
+
+// Content-addressed cache of finished replies, so the identical small requests
+// OpenCode repeats (titles, summaries, retries) do not each start a Cursor CLI
+// run. Entries are kept in least-recently-used order and expire after a TTL.
+
+export type CachedReply = {
+  content: string;
+  toolCalls: OpenAiToolCall[];
+  finishReason: "stop" | "tool_calls";
+  usage: TokenUsage;
+  storedAt: number;
+};
+
+/** How a request uses the cache: `refresh` skips the lookup, `skip` also skips storing. */
+export type CacheMode = "use" | "refresh" | "skip";
+
+export type ResponseCacheOptions = {
+  maxEntries: number;
+  ttlMs: number;
+  /** Persist entries here; memory only when unset. */
+  filePath?: string;
+};
+
+export type ResponseCacheStats = {
+  entries: number;
+  hits: number;
+  misses: number;
+  bypassed: number;
+};
+
+function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** A file: image is hashed by its contents, since the same path may hold a new image. */
+async function imageRef(url: string): Promise<string> {
+  if (!url.startsWith("file:")) return sha256(url);
+  try {
+    return sha256(await readFile(fileURLToPath(url)));
+  } catch {
+    return sha256(url);
+  }
+}
+
+async function imageRefs(content: unknown): Promise<string[]> {
+  if (!Array.isArray(content)) return [];
+  const urls = content
+    .map((p: any) => p?.image_url?.url ?? p?.image_url)
+    .filter((url): url is string => typeof url === "string");
+  return Promise.all(urls.map(imageRef));
+}
+
+/**
+ * Cache key over everything that shapes the reply: the Cursor model and mode,
+ * the workspace, tool and format settings, and the normalized messages.
+ */
+export async function responseCacheKey(args: {
+  model: string;
+  mode: string;
+  workspace: string;
+  messages: any[];
+  tools: unknown[];
+  toolChoice?: unknown;
+  parallelToolCalls?: boolean;
+  responseFormat?: unknown;
+}): Promise<string> {
+  const messages = await Promise.all(
+    args.messages.map(async (m) => [canonicalMessage(m), await imageRefs(m?.content)]),
+  );
+  return sha256(
+    JSON.stringify({
+      model: args.model,
+      mode: args.mode,
+      workspace: args.workspace,
+      tools: args.tools,
+      toolChoice: args.toolChoice ?? null,
+      parallelToolCalls: args.parallelToolCalls ?? null,
+      responseFormat: args.responseFormat ?? null,
+      messages,
+    }),
+  );
+}
+
+/** Reads `Cache-Control`: `no-store` skips the cache, `no-cache` forces a fresh reply. */
+export function cacheModeFromHeader(header: string | string[] | undefined): CacheMode {
+  const directives = String(header ?? "")
+    .toLowerCase()
+    .split(",")
+    .map((d) => d.trim());
+  if (directives.includes("no-store")) return "skip";
+  if (directives.includes("no-cache")) return "refresh";
+  return "use";
+}
+
+export function createResponseCache(opts: ResponseCacheOptions) {
+  let entries: Map<string, CachedReply> | undefined;
+  let writing: Promise<void> = Promise.resolve();
+  const counts = { hits: 0, misses: 0, bypassed: 0 };
+
+  const isFresh = (e: CachedReply, now: number) => now - e.storedAt <= opts.ttlMs;
+
+  async function load(): Promise<Map<string, CachedReply>> {
+    if (entries) return entries;
+    const loaded = new Map<string, CachedReply>();
+    if (opts.filePath) {
+      try {
+        const raw = JSON.parse(await readFile(opts.filePath, "utf8")) as [string, CachedReply][];
+        const now = Date.now();
+        for (const [key, e] of Array.isArray(raw) ? raw : []) {
+          if (e && typeof e.content === "string" && isFresh(e, now)) loaded.set(key, e);
+        }
+      } catch {
+        // Missing or unreadable cache file: start empty.
+      }
+    }
+    entries = loaded;
+    return loaded;
+  }
+
+  function persist(map: Map<string, CachedReply>) {
+    if (!opts.filePath) return writing;
+    const filePath = opts.filePath;
+    // Stored oldest first, so reloading keeps the LRU order.
+    const data = JSON.stringify([...map.entries()]);
+    writing = writing
+      .then(async () => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tmp = `${filePath}.${process.pid}.tmp`;
+        await writeFile(tmp, data, "utf8");
+        await rename(tmp, filePath);
+      })
+      .catch(() => undefined);
+    return writing;
+  }
+
+  return {
+    async get(key: string): Promise<CachedReply | undefined> {
+      const map = await load();
+      const entry = map.get(key);
+      if (!entry || !isFresh(entry, Date.now())) {
+        if (entry) map.delete(key);
+        counts.misses++;
+        return undefined;
+      }
+      // Re-insert to mark it most recently used.
+      map.delete(key);
+      map.set(key, entry);
+      counts.hits++;
+      return entry;
+    },
+
+    async set(key: string, reply: Omit<CachedReply, "storedAt">) {
+      const map = await load();
+      map.delete(key);
+      map.set(key, { ...reply, storedAt: Date.now() });
+      while (map.size > opts.maxEntries) {
+        const oldest = map.keys().next().value as string;
+        map.delete(oldest);
+      }
+      await persist(map);
+    },
+
+    /** Counts a request whose Cache-Control header skipped the lookup. */
+    bypass() {
+      counts.bypassed++;
+    },
+
+    async stats(): Promise<ResponseCacheStats> {
+      return { entries: (await load()).size, ...counts };
+    },
+  };
+}
+
+export type ResponseCache = ReturnType<typeof createResponseCache>;
@@ -0,0 +1,444 @@
+import { randomUUID } from "node:crypto";
+import type * as http from "node:http";
+
+import { HEARTBEAT_INTERVAL_MS } from "./chatCompletions.js";
+import { describeFailure, type CompletionInput } from "./completion.js";
+import type { BridgeContext } from "./context.js";
+import {
+  endEventStream,
+  expectParam,
+  HttpError,
+  json,
+  readJsonBody,
+  rejectUnknownFields,
+  sendHttpError,
+  sendNamedEvent,
+  startEventStream,
+  startHeartbeat,
+} from "./http.js";
+import { validateMessageContent } from "./images.js";
+import type { OpenAiTool, OpenAiToolCall, OpenAiToolChoice } from "./openai.js";
+import { parseResponseFormat } from "./structuredOutput.js";
+import { activeTools } from "./tools.js";
+import type { TokenUsage } from "./usage.js";
+
+// Translation between the OpenAI Responses API (/v1/responses) and the chat
+// message shape the rest of the bridge works with.
+
+export type ResponsesTool = {
+  type: string;
+  name?: string;
+  description?: string;
+  parameters?: unknown;
+};
+
+export type ResponsesToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; name: string }
+  | { type: string };
+
+export type ResponsesRequest = {
+  model?: string;
+  input?: string | any[];
+  instructions?: string;
+  stream?: boolean;
+  tools?: ResponsesTool[];
+  tool_choice?: ResponsesToolChoice;
+  parallel_tool_calls?: boolean;
+  previous_response_id?: string;
+  text?: { format?: unknown };
+};
+
+// Every field of OpenAI's Responses API request; see CHAT_FIELDS in chatCompletions.ts.
+const RESPONSES_FIELDS = [
+  "model",
+  "input",
+  "instructions",
+  "stream",
+  "stream_options",
+  "tools",
+  "tool_choice",
+  "parallel_tool_calls",
+  "previous_response_id",
+  "conversation",
+  "text",
+  "reasoning",
+  "temperature",
+  "top_p",
+  "top_logprobs",
+  "max_output_tokens",
+  "max_tool_calls",
+  "truncation",
+  "include",
+  "background",
+  "user",
+  "metadata",
+  "store",
+  "service_tier",
+  "prompt",
+  "prompt_cache_key",
+  "safety_identifier",
+];
+
+export function newResponsesId(prefix: "resp" | "msg" | "fc"): string {
+  return `${prefix}_${randomUUID().replace(/-/g, "")}`;
+}
+
+function contentPartToChat(part: any): unknown {
+  if (typeof part === "string") return { type: "text", text: part };
+  if (part?.type === "input_text" || part?.type === "output_text" || part?.type === "text") {
+    return { type: "text", text: typeof part.text === "string" ? part.text : "" };
+  }
+  if (part?.type === "input_image") {
+    const url = typeof part.image_url === "string" ? part.image_url : part.image_url?.url;
+    return { type: "image_url", image_url: { url } };
+  }
+  // Left for validateMessageContent to reject with a clear 400.
+  return { type: String(part?.type) };
+}
+
+/** Converts `instructions` + `input` items into chat-completions messages. */
+export function responsesInputToMessages(body: ResponsesRequest): any[] {
+  if (body.previous_response_id) {
+    throw new HttpError(
+      400,
+      "unsupported_parameter",
+      "previous_response_id is not supported by the Cursor bridge; send the full input instead",
+      "previous_response_id",
+    );
+  }
+
+  const messages: any[] = [];
+  if (body.instructions) messages.push({ role: "system", content: body.instructions });
+
+  const input = body.input;
+  if (typeof input === "string") {
+    messages.push({ role: "user", content: input });
+    return messages;
+  }
+
+  for (const [i, item] of (input || []).entries()) {
+    const type = item?.type ?? (item?.role ? "message" : undefined);
+
+    if (type === "message") {
+      const content = Array.isArray(item.content)
+        ? item.content.map(contentPartToChat)
+        : item.content;
+      messages.push({ role: item.role, content });
+      continue;
+    }
+
+    if (type === "function_call") {
+      const call: OpenAiToolCall = {
+        id: item.call_id,
+        type: "function",
+        function: { name: item.name, arguments: item.arguments ?? "{}" },
+      };
+      const prev = messages[messages.length - 1];
+      // Consecutive calls belong to the same assistant turn.
+      if (prev?.role === "assistant" && Array.isArray(prev.tool_calls)) {
+        prev.tool_calls.push(call);
+      } else {
+        messages.push({ role: "assistant", content: null, tool_calls: [call] });
+      }
+      continue;
+    }
+
+    if (type === "function_call_output") {
+      const output = typeof item.output === "string" ? item.output : JSON.stringify(item.output);
+      messages.push({ role: "tool", tool_call_id: item.call_id, content: output });
+      continue;
+    }
+
+    // Reasoning items carry nothing Cursor CLI can use.
+    if (type === "reasoning") continue;
+
+    throw new HttpError(
+      400,
+      "unsupported_input_item",
+      `Unsupported input item type: ${String(type)}`,
+      `input[${i}].type`,
+    );
+  }
+
+  return messages;
+}
+
+export function responsesToolsToChat(tools: ResponsesTool[] | undefined): OpenAiTool[] {
+  return (tools || [])
+    .filter((t) => t?.type === "function" && t.name)
+    .map((t) => ({
+      type: "function" as const,
+      function: { name: t.name as string, description: t.description, parameters: t.parameters },
+    }));
+}
+
+export function responsesToolChoiceToChat(
+  choice: ResponsesToolChoice | undefined,
+): OpenAiToolChoice | undefined {
+  if (!choice || typeof choice === "string") return choice;
+  if (choice.type === "function" && "name" in choice) {
+    return { type: "function", function: { name: choice.name } };
+  }
+  return undefined;
+}
+
+export function responsesUsage(usage: TokenUsage) {
+  return {
+    input_tokens: usage.prompt_tokens,
+    input_tokens_details: { cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0 },
+    output_tokens: usage.completion_tokens,
+    output_tokens_details: { reasoning_tokens: 0 },
+    total_tokens: usage.total_tokens,
+    source: usage.source,
+  };
+}
+
+export function messageOutputItem(id: string, text: string, status = "completed") {
+  return {
+    type: "message",
+    id,
+    status,
+    role: "assistant",
+    content: status === "completed" ? [{ type: "output_text", text, annotations: [] }] : [],
+  };
+}
+
+export function functionCallOutputItem(id: string, call: OpenAiToolCall, status = "completed") {
+  return {
+    type: "function_call",
+    id,
+    call_id: call.id,
+    name: call.function.name,
+    arguments: status === "completed" ? call.function.arguments : "",
+    status,
+  };
+}
+
+export function responseObject(args: {
+  id: string;
+  createdAt: number;
+  model: string;
+  status: "in_progress" | "completed" | "failed" | "cancelled";
+  output: unknown[];
+  usage?: TokenUsage;
+  error?: { code: string; message: string };
+}) {
+  return {
+    id: args.id,
+    object: "response",
+    created_at: args.createdAt,
+    status: args.status,
+    model: args.model,
+    output: args.output,
+    error: args.error ?? null,
+    incomplete_details: null,
+    usage: args.usage ? responsesUsage(args.usage) : null,
+  };
+}
+
+/** POST /v1/responses */
+export async function handleResponses(
+  ctx: BridgeContext,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) {
+  const body = await readJsonBody<ResponsesRequest>(req, ctx.config.maxBodyBytes);
+  if (ctx.config.rejectUnknownFields) rejectUnknownFields(body, RESPONSES_FIELDS);
+  expectParam(
+    body.input === undefined || typeof body.input === "string" || Array.isArray(body.input),
+    "input",
+    "a string or an array",
+  );
+  expectParam(body.model === undefined || typeof body.model === "string", "model", "a string");
+  const model = ctx.resolveModel(body.model);
+  const messages = responsesInputToMessages(body);
+  const toolChoice = responsesToolChoiceToChat(body.tool_choice);
+  const tools = activeTools(responsesToolsToChat(body.tools), toolChoice);
+  const responseFormat = parseResponseFormat(body.text?.format, "text.format");
+
+  const id = newResponsesId("resp");
+  const createdAt = Math.floor(Date.now() / 1000);
+
+  const scope = await ctx.beginRun(req, res, model);
+  if (!scope) return;
+
+  const input: CompletionInput = {
+    model,
+    workspace: scope.workspace,
+    messages,
+    tools,
+    toolChoice,
+    parallelToolCalls: body.parallel_tool_calls,
+    responseFormat,
+    sessionKey: scope.sessionKey,
+    signal: scope.signal,
+    log: scope.log,
+    cacheMode: scope.cacheMode,
+    onAttempt: scope.onAttempt,
+  };
+
+  try {
+    // Image files are checked against the workspace, known once the run begins.
+    await validateMessageContent(messages, scope.workspace);
+    if (body.stream) {
+      await streamResponse(ctx, res, { id, createdAt, model, input });
+      return;
+    }
+
+    const result = await ctx.runCompletion(input);
+    if (!result.ok) {
+      if (result.cancelled) {
+        ctx.logCancelled(id, result.cancelled);
+        return;
+      }
+      sendHttpError(res, describeFailure(result));
+      return;
+    }
+
+    const output: unknown[] = [];
+    if (result.content) output.push(messageOutputItem(newResponsesId("msg"), result.content));
+    for (const call of result.toolCalls) {
+      output.push(functionCallOutputItem(newResponsesId("fc"), call));
+    }
+    if (result.resumed) res.setHeader("X-Cursor-Session-Resumed", "true");
+    json(
+      res,
+      200,
+      responseObject({ id, createdAt, model, status: "completed", output, usage: result.usage }),
+    );
+  } finally {
+    scope.release();
+  }
+}
+
+/**
+ * Streams a response as Responses API semantic events. The message item is
+ * opened lazily on the first text delta; tool calls are only known once the
+ * run ends, so each is emitted whole after the text.
+ */
+async function streamResponse(
+  ctx: BridgeContext,
+  res: http.ServerResponse,
+  args: {
+    id: string;
+    createdAt: number;
+    model: string;
+    input: CompletionInput;
+  },
+) {
+  const { id, createdAt, model } = args;
+  let seq = 0;
+  const emit = (type: string, data: Record<string, unknown>) =>
+    sendNamedEvent(res, type, { type, sequence_number: seq++, ...data });
+  const snapshot = (
+    status: "in_progress" | "completed" | "failed",
+    output: unknown[],
+    extra: Pick<Parameters<typeof responseObject>[0], "usage" | "error"> = {},
+  ) => responseObject({ id, createdAt, model, status, output, ...extra });
+
+  startEventStream(res);
+  const stopHeartbeat = startHeartbeat(res, HEARTBEAT_INTERVAL_MS);
+
+  const output: unknown[] = [];
+  const msgId = newResponsesId("msg");
+  let text = "";
+  let messageOpen = false;
+
+  const openMessage = () => {
+    messageOpen = true;
+    emit("response.output_item.added", {
+      output_index: 0,
+      item: messageOutputItem(msgId, "", "in_progress"),
+    });
+    emit("response.content_part.added", {
+      item_id: msgId,
+      output_index: 0,
+      content_index: 0,
+      part: { type: "output_text", text: "", annotations: [] },
+    });
+  };
+
+  const closeMessage = () => {
+    emit("response.output_text.done", {
+      item_id: msgId,
+      output_index: 0,
+      content_index: 0,
+      text,
+    });
+    emit("response.content_part.done", {
+      item_id: msgId,
+      output_index: 0,
+      content_index: 0,
+      part: { type: "output_text", text, annotations: [] },
+    });
+    const item = messageOutputItem(msgId, text);
+    output.push(item);
+    emit("response.output_item.done", { output_index: 0, item });
+  };
+
+  const fail = (code: string, message: string) =>
+    emit("response.failed", {
+      response: snapshot("failed", output, { error: { code, message } }),
+    });
+
+  emit("response.created", { response: snapshot("in_progress", []) });
+  emit("response.in_progress", { response: snapshot("in_progress", []) });
+
+  try {
+    const result = await ctx.runCompletion({
+      ...args.input,
+      onText: (delta) => {
+        if (!messageOpen) openMessage();
+        text += delta;
+        emit("response.output_text.delta", {
+          item_id: msgId,
+          output_index: 0,
+          content_index: 0,
+          delta,
+        });
+      },
+    });
+
+    if (!result.ok) {
+      if (result.cancelled) ctx.logCancelled(id, result.cancelled);
+      else {
+        const failure = describeFailure(result);
+        fail(failure.code, failure.message);
+      }
+    } else {
+      if (messageOpen) closeMessage();
+      for (const call of result.toolCalls) {
+        const itemId = newResponsesId("fc");
+        const outputIndex = output.length;
+        emit("response.output_item.added", {
+          output_index: outputIndex,
+          item: functionCallOutputItem(itemId, call, "in_progress"),
+        });
+        emit("response.function_call_arguments.delta", {
+          item_id: itemId,
+          output_index: outputIndex,
+          delta: call.function.arguments,
+        });
+        emit("response.function_call_arguments.done", {
+          item_id: itemId,
+          output_index: outputIndex,
+          arguments: call.function.arguments,
+        });
+        const item = functionCallOutputItem(itemId, call);
+        output.push(item);
+        emit("response.output_item.done", { output_index: outputIndex, item });
+      }
+      emit("response.completed", {
+        response: snapshot("completed", output, { usage: result.usage }),
+      });
+    }
+  } catch (err) {
+    fail("internal_error", err instanceof Error ? err.message : String(err));
+  } finally {
+    stopHeartbeat();
+  }
+  endEventStream(res, null);
+}
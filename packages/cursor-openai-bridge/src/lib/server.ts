@@ -1,203 +1,596 @@
 import { randomUUID } from "node:crypto";
 import * as http from "node:http";
+import type { AddressInfo } from "node:net";
 import { URL } from "node:url";
 
-import type { BridgeConfig } from "./config.js";
+import { handleAnthropicMessages, sendAnthropicError } from "./anthropic.js";
+import { handleChatCompletions } from "./chatCompletions.js";
+import {
+  HOT_RELOAD_KEYS,
+  redactConfig,
+  watchBridgeConfig,
+  type BridgeConfig,
+  type ResolvedBridgeConfig,
+} from "./config.js";
+import type { BridgeContext } from "./context.js";
 import type { CursorCliModel } from "./cursorCli.js";
+import { createCompletionRunner } from "./completion.js";
 import { listCursorCliModels } from "./cursorCli.js";
-import { extractBearerToken, json, readBody } from "./http.js";
 import {
-  buildPromptFromMessages,
-  normalizeModelId,
-  type OpenAiChatCompletionRequest,
-} from "./openai.js";
-import { run } from "./process.js";
+  clientAbortSignal,
+  expectParam,
+  extractBearerToken,
+  HttpError,
+  json,
+  readJsonBody,
+  sendHttpError,
+  setAnswerHeaders,
+} from "./http.js";
+import {
+  claimLockFile,
+  instanceProof,
+  liveLockOwner,
+  newInstanceSecret,
+  proofMatches,
+  removeLockFile,
+  workspaceProof,
+  type BridgeLock,
+} from "./lockFile.js";
+import { createLogger, type Logger } from "./logger.js";
+import { createBridgeMetrics } from "./metrics.js";
+import { normalizeModelId } from "./openai.js";
+import {
+  allowsWorkspaceOverride,
+  findProfile,
+  profileModelEntries,
+  resolveWorkspace,
+} from "./profiles.js";
+import { createRequestQueue } from "./queue.js";
+import { cacheModeFromHeader, createResponseCache } from "./responseCache.js";
+import { handleResponses } from "./responses.js";
+import { createSessionStore } from "./sessions.js";
+import { createWorkspaceRegistry } from "./workspaceRegistry.js";
+import { createWorkspaceGuard } from "./workspaces.js";
 
 type ModelCache = { at: number; models: CursorCliModel[] };
 
+const MODEL_CACHE_TTL_MS = 5 * 60_000;
+
+// Registrations of clients that died without releasing are dropped this often.
+const PRUNE_INTERVAL_MS = 10_000;
+// With exitWhenUnused, how long the bridge lingers after its last client, so
+// that reopening a window does not pay for a restart.
+const UNUSED_EXIT_DELAY_MS = 30_000;
+
+// Fixed route labels keep metric cardinality bounded; anything else is "other".
+const METRIC_ROUTES = [
+  "/health",
+  "/metrics",
+  "/v1/models",
+  "/v1/chat/completions",
+  "/v1/messages",
+  "/v1/responses",
+  "/v1/workspaces",
+  "/v1/workspaces/:token",
+];
+
+/**
+ * Version of what the OpenCode plugin relies on: /health, /v1/workspaces and
+ * the lock file. Bump it on incompatible changes so old plugins can tell.
+ */
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
 export type BridgeServerOptions = {
   version: string;
+  /** Identifies the build on disk (its mtime), so a rebuild without a version bump shows. */
+  build?: string;
   config: BridgeConfig;
+  /** When given, the config file is watched and its sources shown on /health. */
+  resolvedConfig?: ResolvedBridgeConfig;
+  /** Defaults to a logger writing to `config.logFile`. */
+  log?: Logger;
+  /** Called when `config.exitWhenUnused` is on and the last registered client is gone. */
+  onUnused?: () => void;
+  /** Called when the bridge cannot listen, after trying a free port if allowed. */
+  onListenError?: (err: NodeJS.ErrnoException) => void;
 };
 
+const CLIENT_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/** The client's x-request-id when it is a sane token, else a new one. */
+function requestIdFor(req: http.IncomingMessage): string {
+  const header = req.headers["x-request-id"];
+  return typeof header === "string" && CLIENT_REQUEST_ID.test(header) ? header : randomUUID();
+}
+
 export function startBridgeServer(opts: BridgeServerOptions): http.Server {
   const { config } = opts;
+  const log = opts.log ?? createLogger(config);
+  const requestIds = new WeakMap<http.IncomingMessage, string>();
+  const requestModels = new WeakMap<http.IncomingMessage, string>();
+  const secret = newInstanceSecret();
+  let listeningSince: string | undefined;
 
   let modelCache: ModelCache | undefined;
   let lastRequestedModel: string | undefined;
+  const queue = createRequestQueue({
+    maxConcurrent: config.maxConcurrent,
+    maxPerWorkspace: config.maxConcurrentPerWorkspace,
+    maxQueue: config.maxQueue,
+    queueTimeoutMs: config.queueTimeoutMs,
+  });
+  const sessions = createSessionStore({
+    filePath: config.sessionsFile,
+    ttlMs: config.sessionTtlMs,
+  });
+  const metrics = createBridgeMetrics(() => queue.stats());
+  const cache = createResponseCache({
+    maxEntries: config.cacheMaxEntries,
+    ttlMs: config.cacheTtlMs,
+    filePath: config.cachePersist ? config.cacheFile : undefined,
+  });
+  const runCompletion = createCompletionRunner({ config, sessions, metrics, cache });
+  const workspaces = createWorkspaceGuard(config, log);
+
+  let unusedTimer: NodeJS.Timeout | undefined;
+  const registry = createWorkspaceRegistry({
+    onEmpty() {
+      if (!config.exitWhenUnused || !opts.onUnused) return;
+      clearTimeout(unusedTimer);
+      unusedTimer = setTimeout(() => {
+        if (registry.size() > 0 || !config.exitWhenUnused) return;
+        log.info("last workspace client is gone; shutting down");
+        opts.onUnused?.();
+      }, UNUSED_EXIT_DELAY_MS);
+    },
+  });
+  const pruneTimer = setInterval(() => {
+    const dropped = registry.prune();
+    if (dropped) log.info(`dropped ${dropped} workspace registration(s) of exited clients`);
+  }, PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+
+  /** The workspace registered under the X-Cursor-Workspace-Token header, if any. */
+  function registeredWorkspace(req: http.IncomingMessage): string | undefined {
+    const token = req.headers["x-cursor-workspace-token"];
+    if (typeof token !== "string" || !token) return undefined;
+    const entry = registry.get(token);
+    if (!entry) {
+      throw new HttpError(
+        401,
+        "invalid_workspace_token",
+        "Unknown X-Cursor-Workspace-Token; register the workspace again with POST /v1/workspaces",
+      );
+    }
+    return entry.workspace;
+  }
+
+  /** POST, GET and DELETE under /v1/workspaces. */
+  async function handleWorkspaces(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    token: string | undefined,
+  ) {
+    if (req.method === "POST" && !token) {
+      const body = await readJsonBody<{
+        workspace?: unknown;
+        pid?: unknown;
+        client?: unknown;
+        proof?: unknown;
+      }>(req, config.maxBodyBytes);
+      const { workspace: requested, pid, client, proof } = body;
+      expectParam(typeof requested === "string" && requested !== "", "workspace", "a path");
+      expectParam(proof === undefined || typeof proof === "string", "proof", "a string");
+      expectParam(pid === undefined || Number.isInteger(pid), "pid", "an integer");
+      expectParam(client === undefined || typeof client === "string", "client", "a string");
+      const workspace = await workspaces.check(
+        requested as string,
+        {
+          requestId: requestIds.get(req) ?? requestIdFor(req),
+          remoteAddress: req.socket.remoteAddress,
+          userAgent: req.headers["user-agent"],
+        },
+        // The user's own OpenCode windows may register projects outside the
+        // roots: they can read the lock file and sign the path with its secret.
+        { anyRoot: proofMatches(workspaceProof(secret, requested as string), proof) },
+      );
+      clearTimeout(unusedTimer);
+      const entry = registry.register({
+        workspace,
+        pid: pid as number | undefined,
+        client: client as string | undefined,
+      });
+      const refs = registry.summary().find((w) => w.workspace === workspace)?.refs ?? 1;
+      log.info(`workspace registered: ${workspace} (${refs} client(s))`, { pid: entry.pid });
+      json(res, 201, { token: entry.token, workspace, refs });
+      return;
+    }
+    if (req.method === "GET" && !token) {
+      json(res, 200, { object: "list", data: registry.summary() });
+      return;
+    }
+
+    const entry = token ? registry.get(token) : undefined;
+    if (token && (req.method === "GET" || req.method === "DELETE")) {
+      if (!entry) throw new HttpError(404, "workspace_token_not_found", "Unknown workspace token");
+      if (req.method === "DELETE") {
+        registry.release(entry.token);
+        log.info(`workspace released: ${entry.workspace}`, { pid: entry.pid });
+        json(res, 200, { released: true, remaining: registry.size() });
+      } else {
+        json(res, 200, { workspace: entry.workspace, registeredAt: entry.registeredAt });
+      }
+      return;
+    }
+    const route = token ? "/v1/workspaces/:token" : "/v1/workspaces";
+    throw new HttpError(404, "not_found", `No route for ${req.method} ${route}`);
+  }
+
+  /** Cursor CLI's model list, cached for MODEL_CACHE_TTL_MS. */
+  async function cursorModels(): Promise<CursorCliModel[]> {
+    const now = Date.now();
+    const fresh = modelCache && now - modelCache.at <= MODEL_CACHE_TTL_MS;
+    metrics.modelCache.inc({ result: fresh ? "hit" : "miss" });
+    if (!modelCache || !fresh) {
+      const models = await listCursorCliModels({ agentBin: config.agentBin, timeoutMs: 60_000 });
+      modelCache = { at: now, models };
+    }
+    return modelCache.models;
+  }
+
+  /**
+   * 404s a model Cursor CLI does not list. Skipped for `auto` and profile
+   * aliases, when fallback models may still answer, and when the list is
+   * unavailable, in which case Cursor CLI gets to judge the model itself.
+   */
+  async function checkModel(model: string) {
+    if (model === "auto" || findProfile(config, model) || config.fallbackModels.length) return;
+    let models: CursorCliModel[];
+    try {
+      models = await cursorModels();
+    } catch (err) {
+      log.warn(`cannot list models to check ${model}: ${(err as Error).message}`);
+      return;
+    }
+    if (!models.length || models.some((m) => m.id === model)) return;
+    throw new HttpError(
+      404,
+      "model_not_found",
+      `The model \`${model}\` does not exist or is not available to your Cursor account`,
+      "model",
+    );
+  }
+
+  async function cacheHealth() {
+    const stats = await cache.stats();
+    const lookups = stats.hits + stats.misses;
+    return {
+      ...stats,
+      hitRate: lookups ? Number((stats.hits / lookups).toFixed(3)) : 0,
+      maxEntries: config.cacheMaxEntries,
+      ttlMs: config.cacheTtlMs,
+      file: config.cachePersist ? config.cacheFile : undefined,
+    };
+  }
+
+  const ctx: BridgeContext = {
+    config,
+    runCompletion,
+    log,
+    resolveModel(raw) {
+      const requested = normalizeModelId(raw);
+      const explicitModel = requested && requested !== "auto" ? requested : undefined;
+      if (explicitModel) lastRequestedModel = explicitModel;
+
+      return (
+        explicitModel ||
+        (config.strictModel ? lastRequestedModel : undefined) ||
+        requested ||
+        lastRequestedModel ||
+        config.defaultModel
+      );
+    },
+    async beginRun(req, res, model) {
+      await checkModel(model);
+      const requestId = requestIds.get(req) ?? requestIdFor(req);
+
+      // Per-request workspace override: X-Cursor-Workspace header > profile > config.workspace
+      const headerWs = req.headers["x-cursor-workspace"];
+      const requested = (typeof headerWs === "string" && headerWs.trim()) || undefined;
+      const registered = registeredWorkspace(req);
+      const override = !allowsWorkspaceOverride(config, model)
+        ? undefined
+        : requested
+          ? await workspaces.check(requested, {
+              requestId,
+              model,
+              remoteAddress: req.socket.remoteAddress,
+              userAgent: req.headers["user-agent"],
+            })
+          : registered;
+      const workspace = resolveWorkspace(config, model, override);
+      const headerSession = req.headers["x-cursor-session"];
+      const sessionKey = (typeof headerSession === "string" && headerSession.trim()) || undefined;
+      const signal = clientAbortSignal(req, res);
+
+      const slot = await queue.acquire(workspace, signal);
+      if (!slot.ok) {
+        if (slot.reason === "cancelled") return undefined;
+        const headers = { "Retry-After": String(slot.retryAfterSec) };
+        throw slot.reason === "queue_full"
+          ? new HttpError(
+              429,
+              "queue_full",
+              "Too many concurrent requests: bridge queue is full",
+              undefined,
+              { headers },
+            )
+          : new HttpError(
+              408,
+              "queue_timeout",
+              "Timed out waiting for a free Cursor CLI slot",
+              undefined,
+              { headers },
+            );
+      }
+      requestModels.set(req, model);
+      let attempts = 0;
+      return {
+        requestId,
+        workspace,
+        sessionKey,
+        cacheMode: cacheModeFromHeader(req.headers["cache-control"]),
+        signal,
+        release: slot.release,
+        log: log.child({ requestId }),
+        onAttempt(cursorModel) {
+          attempts++;
+          setAnswerHeaders(res, { model: cursorModel, attempts });
+        },
+      };
+    },
+    logCancelled(requestId, cancelled) {
+      log.info(
+        `${requestId} cancelled by client; agent stopped with ${cancelled.killedWith} after ${cancelled.elapsedMs}ms`,
+        { responseId: requestId, ...cancelled },
+      );
+    },
+  };
 
   const server = http.createServer(async (req, res) => {
+    const requestId = requestIdFor(req);
+    const startedAt = Date.now();
+    requestIds.set(req, requestId);
+    res.setHeader("x-request-id", requestId);
+
+    // Workspace tokens route requests, so they stay out of the logs.
+    const pathname = (req.url || "/")
+      .split("?")[0]
+      .replace(/^(\/v1\/workspaces\/)[^/]+/, "$1:token");
+    const socket = req.socket;
+    const bytesBefore = socket.bytesWritten;
+    res.on("close", () => {
+      const status = res.writableFinished ? res.statusCode : "aborted";
+      const durationMs = Date.now() - startedAt;
+
+      const route = METRIC_ROUTES.includes(pathname) ? pathname : "other";
+      const model = requestModels.get(req) ?? "";
+      metrics.requests.inc({ route, model, status: String(status) });
+      metrics.requestDuration.observe({ route }, durationMs / 1000);
+      // One response at a time per connection, so the socket delta is this stream.
+      if (String(res.getHeader("content-type")).startsWith("text/event-stream")) {
+        metrics.streamedBytes.inc({ route }, socket.bytesWritten - bytesBefore);
+      }
+
+      // Health checks and scrapes are polled constantly; keep them out of the default level.
+      const level = pathname === "/health" || pathname === "/metrics" ? "debug" : "info";
+      log[level](`${req.method} ${pathname} ${status} in ${durationMs}ms`, {
+        requestId,
+        method: req.method,
+        path: pathname,
+        status,
+        durationMs,
+      });
+    });
+
+    // Anthropic SDKs expect their own error envelope, not the OpenAI one.
+    const sendError = (err: HttpError) =>
+      pathname === "/v1/messages" ? sendAnthropicError(res, err) : sendHttpError(res, err);
+
     try {
       const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
 
-      if (config.requiredKey) {
-        const token = extractBearerToken(req);
+      const isMetrics = req.method === "GET" && url.pathname === "/metrics";
+      if (config.requiredKey && (!isMetrics || config.metricsAuth)) {
+        // Anthropic SDKs send the key as x-api-key instead of a bearer token.
+        const apiKey = req.headers["x-api-key"];
+        const token = extractBearerToken(req) ?? (typeof apiKey === "string" ? apiKey : undefined);
         if (token !== config.requiredKey) {
-          json(res, 401, { error: { message: "Invalid API key", code: "unauthorized" } });
+          sendError(new HttpError(401, "invalid_api_key", "Invalid API key"));
           return;
         }
       }
 
       if (req.method === "GET" && url.pathname === "/health") {
+        const nonce = req.headers["x-bridge-nonce"];
         json(res, 200, {
           ok: true,
           version: opts.version,
+          build: opts.build,
+          protocol: BRIDGE_PROTOCOL_VERSION,
+          instance: {
+            pid: process.pid,
+            startedAt: listeningSince,
+            port: (server.address() as AddressInfo).port,
+            // Lets a client holding the lock file's secret tell this bridge from an impostor.
+            proof: typeof nonce === "string" && nonce ? instanceProof(secret, nonce) : undefined,
+          },
           workspace: config.workspace,
           mode: config.mode,
           defaultModel: config.defaultModel,
           force: config.force,
           approveMcps: config.approveMcps,
           strictModel: config.strictModel,
+          queue: queue.stats(),
+          sessions: config.sessions ? { stored: await sessions.size() } : false,
+          cache: config.cache ? await cacheHealth() : false,
+          workspaces: registry.summary(),
+          config: opts.resolvedConfig
+            ? {
+                file: opts.resolvedConfig.file,
+                effective: redactConfig(config),
+                sources: opts.resolvedConfig.sources,
+                hotReload: HOT_RELOAD_KEYS,
+              }
+            : undefined,
         });
         return;
       }
 
-      if (req.method === "GET" && url.pathname === "/v1/models") {
-        const now = Date.now();
-        if (!modelCache || now - modelCache.at > 5 * 60_000) {
-          const models = await listCursorCliModels({
-            agentBin: config.agentBin,
-            timeoutMs: 60_000,
-          });
-          modelCache = { at: now, models };
-        }
+      if (isMetrics) {
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+        res.end(metrics.render());
+        return;
+      }
 
+      if (req.method === "GET" && url.pathname === "/v1/models") {
+        const models = await cursorModels();
         json(res, 200, {
           object: "list",
-          data: modelCache.models.map((m) => ({
-            id: m.id,
-            object: "model",
-            owned_by: "cursor",
-            name: m.name,
-          })),
+          data: [
+            ...models.map((m) => ({
+              id: m.id,
+              object: "model",
+              owned_by: "cursor",
+              name: m.name,
+            })),
+            ...profileModelEntries(config),
+          ],
         });
         return;
       }
 
+      const workspaceRoute = url.pathname.match(/^\/v1\/workspaces(?:\/([^/]+))?\/?$/);
+      if (workspaceRoute) {
+        await handleWorkspaces(req, res, workspaceRoute[1]);
+        return;
+      }
+
       if (req.method === "POST" && url.pathname === "/v1/chat/completions") {
-        const raw = await readBody(req);
-        const body = JSON.parse(raw || "{}") as OpenAiChatCompletionRequest;
-        const requested = normalizeModelId(body.model);
-        const explicitModel = requested && requested !== "auto" ? requested : undefined;
-        if (explicitModel) lastRequestedModel = explicitModel;
-
-        const model =
-          explicitModel ||
-          (config.strictModel ? lastRequestedModel : undefined) ||
-          requested ||
-          lastRequestedModel ||
-          config.defaultModel;
-
-        const prompt = buildPromptFromMessages(body.messages || []);
-
-        // Per-request workspace override: X-Cursor-Workspace header > config.workspace
-        const headerWs = req.headers["x-cursor-workspace"];
-        const requestWorkspace =
-          (typeof headerWs === "string" && headerWs.trim()) || config.workspace;
-
-        const cmdArgs: string[] = ["--print"];
-
-        // For non-interactive usage, avoid prompts that would hang the bridge.
-        if (config.approveMcps) cmdArgs.push("--approve-mcps");
-        if (config.force) cmdArgs.push("--force");
-
-        // Cursor CLI only accepts --mode=ask|plan. "agent" is the default when --mode is omitted.
-        if (config.mode !== "agent") cmdArgs.push("--mode", config.mode);
-
-        cmdArgs.push("--workspace", requestWorkspace);
-        cmdArgs.push("--model", model);
-        cmdArgs.push("--output-format", "text");
-        cmdArgs.push(prompt);
-
-        const out = await run(config.agentBin, cmdArgs, {
-          cwd: requestWorkspace,
-          timeoutMs: config.timeoutMs,
-        });
-        if (out.code !== 0) {
-          json(res, 500, {
-            error: {
-              message: `Cursor CLI failed (exit ${out.code}): ${out.stderr.trim()}`,
-              code: "cursor_cli_error",
-            },
-          });
-          return;
-        }
+        await handleChatCompletions(ctx, req, res);
+        return;
+      }
 
-        const content = out.stdout.trim();
-        const id = `chatcmpl_${randomUUID().replace(/-/g, "")}`;
-        const created = Math.floor(Date.now() / 1000);
-
-        if (body.stream) {
-          res.writeHead(200, {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            Connection: "keep-alive",
-          });
-
-          const chunk1 = {
-            id,
-            object: "chat.completion.chunk",
-            created,
-            model,
-            choices: [
-              {
-                index: 0,
-                delta: { role: "assistant", content },
-                finish_reason: null,
-              },
-            ],
-          };
-          res.write(`data: ${JSON.stringify(chunk1)}\n\n`);
-          const chunk2 = {
-            id,
-            object: "chat.completion.chunk",
-            created,
-            model,
-            choices: [
-              {
-                index: 0,
-                delta: {},
-                finish_reason: "stop",
-              },
-            ],
-          };
-          res.write(`data: ${JSON.stringify(chunk2)}\n\n`);
-          res.write("data: [DONE]\n\n");
-          res.end();
-          return;
-        }
+      if (req.method === "POST" && url.pathname === "/v1/messages") {
+        await handleAnthropicMessages(ctx, req, res);
+        return;
+      }
 
-        json(res, 200, {
-          id,
-          object: "chat.completion",
-          created,
-          model,
-          choices: [
-            {
-              index: 0,
-              message: { role: "assistant", content },
-              finish_reason: "stop",
-            },
-          ],
-          usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
-        });
+      if (req.method === "POST" && url.pathname === "/v1/responses") {
+        await handleResponses(ctx, req, res);
         return;
       }
 
-      json(res, 404, { error: { message: "Not found", code: "not_found" } });
+      sendError(new HttpError(404, "not_found", `No route for ${req.method} ${pathname}`));
     } catch (err) {
-      json(res, 500, {
-        error: {
-          message: err instanceof Error ? err.message : String(err),
-          code: "internal_error",
-        },
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (err instanceof HttpError) {
+        sendError(err);
+        return;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      log.error(`unhandled error: ${message}`, {
+        requestId,
+        stack: err instanceof Error ? err.stack : undefined,
       });
+      sendError(new HttpError(500, "internal_error", message));
     }
   });
 
-  server.listen(config.port, config.host, () => {
-    // eslint-disable-next-line no-console
-    console.log(`cursor-openai-bridge listening on http://${config.host}:${config.port}`);
+  server.on("close", () => {
+    clearInterval(pruneTimer);
+    clearTimeout(unusedTimer);
+  });
+
+  if (opts.resolvedConfig) {
+    const stopWatching = watchBridgeConfig(opts.resolvedConfig, log);
+    server.on("close", stopWatching);
+  }
+
+  // Two bridges on one lock file would orphan one of them, so a bridge that
+  // finds another live one steps aside instead of taking a free port.
+  const alreadyRunning = (owner: BridgeLock) =>
+    Object.assign(
+      new Error(`another bridge is already running at ${owner.baseURL} (pid ${owner.pid})`),
+      { code: "EBRIDGERUNNING" },
+    );
+
+  // The listener callbacks below are async, so anything they throw would
+  // otherwise be an unhandled rejection with the bridge half started.
+  const failToListen = (err: unknown) => {
+    if (server.listening) server.close();
+    opts.onListenError?.(
+      err instanceof Error ? (err as NodeJS.ErrnoException) : new Error(String(err)),
+    );
+  };
+
+  let triedFreePort = false;
+  server.on("error", async (err: NodeJS.ErrnoException) => {
+    try {
+      if (err.code === "EADDRINUSE" && config.portFallback && !triedFreePort) {
+        triedFreePort = true;
+        const owner = await liveLockOwner(config.lockFile, config.requiredKey);
+        if (owner) {
+          opts.onListenError?.(alreadyRunning(owner));
+          return;
+        }
+        log.warn(`port ${config.port} is in use; listening on a free port instead`);
+        server.listen(0, config.host);
+        return;
+      }
+      opts.onListenError?.(err);
+    } catch (e) {
+      failToListen(e);
+    }
+  });
+  server.on("close", () => removeLockFile(config.lockFile));
+
+  server.on("listening", async () => {
+    try {
+      await announceListening();
+    } catch (err) {
+      failToListen(err);
+    }
+  });
+
+  async function announceListening() {
+    const { port } = server.address() as AddressInfo;
+    const baseURL = `http://${config.host}:${port}`;
+    listeningSince = new Date().toISOString();
+    const lock = {
+      pid: process.pid,
+      startedAt: listeningSince,
+      host: config.host,
+      port,
+      baseURL,
+      version: opts.version,
+      secret,
+    };
+    const claim = await claimLockFile(config.lockFile, lock, config.requiredKey);
+    if (!claim.claimed) {
+      failToListen(alreadyRunning(claim.owner));
+      return;
+    }
+    log.info(`listening on ${baseURL}`, {
+      version: opts.version,
+      build: opts.build,
+      pid: process.pid,
+      workspace: config.workspace,
+      lockFile: config.lockFile,
+    });
     // eslint-disable-next-line no-console
     console.log(`- agent bin: ${config.agentBin}`);
     // eslint-disable-next-line no-console
@@ -211,8 +604,20 @@ export function startBridgeServer(opts: BridgeServerOptions): http.Server {
     // eslint-disable-next-line no-console
     console.log(`- approve mcps: ${config.approveMcps}`);
     // eslint-disable-next-line no-console
+    console.log(
+      `- max concurrent: ${config.maxConcurrent} (${config.maxConcurrentPerWorkspace} per workspace, queue ${config.maxQueue})`,
+    );
+    // eslint-disable-next-line no-console
     console.log(`- required api key: ${config.requiredKey ? "yes" : "no"}`);
-  });
+    // eslint-disable-next-line no-console
+    console.log(`- log file: ${config.logFile} (level ${config.logLevel})`);
+    if (opts.resolvedConfig) {
+      const { file } = opts.resolvedConfig;
+      // eslint-disable-next-line no-console
+      console.log(`- config file: ${file.path}${file.loaded ? "" : " (not found)"}`);
+    }
+  }
+  server.listen(config.port, config.host);
 
   return server;
 }
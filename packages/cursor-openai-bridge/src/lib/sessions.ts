@@ -0,0 +1,197 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+
+import { messageContentToText } from "./openai.js";
+
+// Maps OpenCode conversations to Cursor CLI chat ids so a follow-up turn can
+// `--resume` the chat and send only the new messages.
+//
+// A conversation is identified either by an explicit X-Cursor-Session header
+// or by a hash chain over its messages: h[k] = sha256(h[k-1] + message k).
+// After each turn the bridge stores the hash of the transcript including its
+// own reply; the next request from the same conversation starts with exactly
+// that prefix.
+
+export type SessionEntry = {
+  sessionId: string;
+  /** Hash of the first `count` messages, seeded with `sessionSeed`. */
+  hash: string;
+  count: number;
+  workspace: string;
+  updatedAt: number;
+};
+
+export type SessionMatch = {
+  key: string;
+  entry: SessionEntry;
+  /** Messages after the stored prefix, i.e. what the resumed chat has not seen. */
+  newMessages: any[];
+};
+
+export type SessionStoreOptions = {
+  filePath: string;
+  ttlMs: number;
+  maxEntries?: number;
+};
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function canonicalArguments(raw: unknown): unknown {
+  if (typeof raw !== "string") return raw ?? {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// Tool call ids are left out on purpose: they are generated by the bridge and
+// only need to be consistent within one request.
+export function canonicalMessage(m: any): string {
+  const toolCalls = Array.isArray(m?.tool_calls)
+    ? m.tool_calls.map((c: any) => ({
+        name: c?.function?.name,
+        arguments: canonicalArguments(c?.function?.arguments),
+      }))
+    : [];
+  return JSON.stringify({
+    role: m?.role,
+    text: messageContentToText(m?.content).trim(),
+    toolCalls,
+  });
+}
+
+/**
+ * Seed for the hash chain. Anything that changes what a resumed chat would
+ * need to know up front (workspace, tool definitions) belongs here.
+ */
+export function sessionSeed(args: { workspace: string; tools?: unknown[] }): string {
+  return sha256(JSON.stringify({ workspace: args.workspace, tools: args.tools ?? [] }));
+}
+
+/** Returns h[0..n]: the chain hash of every prefix of `messages`. */
+export function conversationHashes(messages: any[], seed: string): string[] {
+  const hashes = [seed];
+  for (const m of messages) {
+    hashes.push(sha256(`${hashes[hashes.length - 1]}\n${canonicalMessage(m)}`));
+  }
+  return hashes;
+}
+
+export function createSessionStore(opts: SessionStoreOptions) {
+  const maxEntries = opts.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  let entries: Map<string, SessionEntry> | undefined;
+  let writing: Promise<void> = Promise.resolve();
+
+  const isFresh = (e: SessionEntry, now: number) => now - e.updatedAt <= opts.ttlMs;
+
+  async function load(): Promise<Map<string, SessionEntry>> {
+    if (entries) return entries;
+    const loaded = new Map<string, SessionEntry>();
+    try {
+      const raw = JSON.parse(await readFile(opts.filePath, "utf8")) as Record<string, SessionEntry>;
+      const now = Date.now();
+      for (const [key, e] of Object.entries(raw || {})) {
+        if (e && typeof e.sessionId === "string" && isFresh(e, now)) loaded.set(key, e);
+      }
+    } catch {
+      // Missing or unreadable store: start empty.
+    }
+    entries = loaded;
+    return loaded;
+  }
+
+  function persist(map: Map<string, SessionEntry>) {
+    const now = Date.now();
+    const kept = [...map.entries()]
+      .filter(([, e]) => isFresh(e, now))
+      .sort((a, b) => b[1].updatedAt - a[1].updatedAt)
+      .slice(0, maxEntries);
+    map.clear();
+    for (const [k, e] of kept) map.set(k, e);
+
+    const data = JSON.stringify(Object.fromEntries(kept), null, 2);
+    writing = writing
+      .then(async () => {
+        await mkdir(path.dirname(opts.filePath), { recursive: true });
+        const tmp = `${opts.filePath}.${process.pid}.tmp`;
+        await writeFile(tmp, data, "utf8");
+        await rename(tmp, opts.filePath);
+      })
+      .catch(() => undefined);
+    return writing;
+  }
+
+  return {
+    /**
+     * Finds the stored chat that covers the longest prefix of `messages`,
+     * leaving at least one new message to send.
+     */
+    async find(args: {
+      messages: any[];
+      seed: string;
+      explicitKey?: string;
+    }): Promise<SessionMatch | undefined> {
+      const map = await load();
+      const now = Date.now();
+      const hashes = conversationHashes(args.messages, args.seed);
+
+      if (args.explicitKey) {
+        const key = `header:${args.explicitKey}`;
+        const entry = map.get(key);
+        if (!entry || !isFresh(entry, now)) return undefined;
+        if (entry.count >= args.messages.length || hashes[entry.count] !== entry.hash) {
+          return undefined;
+        }
+        return { key, entry, newMessages: args.messages.slice(entry.count) };
+      }
+
+      for (let k = args.messages.length - 1; k > 0; k--) {
+        const key = `prefix:${hashes[k]}`;
+        const entry = map.get(key);
+        if (entry && isFresh(entry, now)) {
+          return { key, entry, newMessages: args.messages.slice(k) };
+        }
+      }
+      return undefined;
+    },
+
+    /** Records that `sessionId` has now seen all of `messages`. */
+    async save(args: {
+      messages: any[];
+      seed: string;
+      sessionId: string;
+      workspace: string;
+      explicitKey?: string;
+    }) {
+      const map = await load();
+      const hashes = conversationHashes(args.messages, args.seed);
+      const hash = hashes[hashes.length - 1];
+      const key = args.explicitKey ? `header:${args.explicitKey}` : `prefix:${hash}`;
+      map.set(key, {
+        sessionId: args.sessionId,
+        hash,
+        count: args.messages.length,
+        workspace: args.workspace,
+        updatedAt: Date.now(),
+      });
+      await persist(map);
+    },
+
+    async delete(key: string) {
+      const map = await load();
+      if (map.delete(key)) await persist(map);
+    },
+
+    async size(): Promise<number> {
+      return (await load()).size;
+    },
+  };
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
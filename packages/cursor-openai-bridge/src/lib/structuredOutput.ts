@@ -0,0 +1,297 @@
+import { HttpError } from "./http.js";
+
+// JSON mode for Cursor CLI, which has no native structured output: the schema
+// is described in the prompt, the answer is parsed and validated here, and
+// the completion runner re-asks the model when validation fails.
+
+export type ResponseFormat =
+  | { type: "json_object" }
+  | { type: "json_schema"; name: string; schema: Record<string, unknown> };
+
+export type JsonCheck =
+  | { ok: true; value: unknown; text: string }
+  | { ok: false; errors: string[] };
+
+// Subtrees that hold JSON values rather than schemas.
+const VALUE_KEYWORDS = new Set(["enum", "const", "default", "examples"]);
+
+/**
+ * 400s a schema whose `pattern`s do not compile, before any Cursor CLI run:
+ * validation only compiles them once the model has answered.
+ */
+function checkSchemaPatterns(schema: unknown, at: string) {
+  if (Array.isArray(schema)) {
+    schema.forEach((item, i) => checkSchemaPatterns(item, `${at}[${i}]`));
+    return;
+  }
+  if (!schema || typeof schema !== "object") return;
+  for (const [key, value] of Object.entries(schema)) {
+    if (VALUE_KEYWORDS.has(key)) continue;
+    if (key === "pattern" && typeof value === "string") {
+      try {
+        new RegExp(value, "u");
+      } catch (err) {
+        throw new HttpError(
+          400,
+          "invalid_response_format",
+          `Invalid pattern in response format schema: ${(err as Error).message}`,
+          `${at}.pattern`,
+        );
+      }
+      continue;
+    }
+    checkSchemaPatterns(value, `${at}.${key}`);
+  }
+}
+
+/** Schemas that apply to the same value as `node`: its `$ref` target, else its combinators. */
+function sameValueSchemas(root: Record<string, unknown>, node: any): object[] {
+  if (typeof node.$ref === "string") {
+    const target = resolveRef(root, node.$ref);
+    return target ? [target] : [];
+  }
+  return [node.allOf, node.anyOf, node.oneOf].flatMap((list) =>
+    Array.isArray(list) ? list.filter(isObject) : [],
+  );
+}
+
+/**
+ * 400s a schema whose `$ref`s loop back without descending into the value
+ * (e.g. `{"$ref": "#"}`), which validation would follow forever. Recursion
+ * through `properties` or `items` is fine: each step is one level deeper.
+ */
+function checkSchemaRefs(root: Record<string, unknown>, at: string) {
+  const acyclic = new Set<object>();
+  const visit = (node: object, path: Set<object>) => {
+    if (acyclic.has(node)) return;
+    if (path.has(node)) {
+      throw new HttpError(
+        400,
+        "invalid_response_format",
+        "Response format schema has a $ref cycle that never reaches a value",
+        at,
+      );
+    }
+    path.add(node);
+    for (const next of sameValueSchemas(root, node)) visit(next, path);
+    path.delete(node);
+    acyclic.add(node);
+  };
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) node.forEach(walk);
+    if (!isObject(node)) return;
+    visit(node, new Set());
+    for (const [key, value] of Object.entries(node)) {
+      if (!VALUE_KEYWORDS.has(key)) walk(value);
+    }
+  };
+  walk(root);
+}
+
+/**
+ * Reads an OpenAI `response_format` (or Responses API `text.format`) and
+ * returns undefined for plain text. Malformed formats are a 400.
+ */
+export function parseResponseFormat(raw: any, param: string): ResponseFormat | undefined {
+  if (raw == null || raw.type === "text") return undefined;
+  if (raw.type === "json_object") return { type: "json_object" };
+  if (raw.type === "json_schema") {
+    // Chat completions nest the schema under json_schema; Responses API does not.
+    const spec = raw.json_schema ?? raw;
+    if (!spec.schema || typeof spec.schema !== "object" || Array.isArray(spec.schema)) {
+      throw new HttpError(
+        400,
+        "invalid_response_format",
+        "response_format json_schema requires a JSON Schema object in `schema`",
+        `${param}.schema`,
+      );
+    }
+    const at = `${param}${raw.json_schema ? ".json_schema" : ""}.schema`;
+    checkSchemaPatterns(spec.schema, at);
+    checkSchemaRefs(spec.schema, at);
+    return { type: "json_schema", name: String(spec.name || "response"), schema: spec.schema };
+  }
+  throw new HttpError(
+    400,
+    "invalid_response_format",
+    `Unsupported response_format type: ${String(raw.type)}`,
+    `${param}.type`,
+  );
+}
+
+export function buildResponseFormatInstructions(format: ResponseFormat): string {
+  const lines = [
+    "# Response format",
+    "Reply with a single valid JSON value and nothing else: no prose, no markdown code fences.",
+  ];
+  if (format.type === "json_object") {
+    lines.push("The value must be a JSON object.");
+  } else {
+    lines.push(
+      `The value must conform to this JSON Schema (${format.name}):`,
+      JSON.stringify(format.schema, null, 2),
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Follow-up message sent when the previous answer failed validation. */
+export function buildRetryMessage(errors: string[]): string {
+  return [
+    "Your previous reply did not match the required response format:",
+    ...errors.map((e) => `- ${e}`),
+    "Reply again with only the corrected JSON.",
+  ].join("\n");
+}
+
+// Models often wrap JSON in a code fence or a sentence; take the fenced block
+// if there is one, otherwise the span from the first brace to the last.
+function extractJsonText(text: string): string {
+  const trimmed = text.trim();
+  const fence = trimmed.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+  if (fence) return fence[1].trim();
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf("}"), trimmed.lastIndexOf("]"));
+  return start !== -1 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+export function checkJsonOutput(text: string, format: ResponseFormat): JsonCheck {
+  const candidate = extractJsonText(text);
+  let value: unknown;
+  try {
+    value = JSON.parse(candidate);
+  } catch (err) {
+    return { ok: false, errors: [`not valid JSON: ${(err as Error).message}`] };
+  }
+
+  const errors =
+    format.type === "json_schema"
+      ? validateJsonSchema(value, format.schema)
+      : isObject(value)
+        ? []
+        : ["$: expected a JSON object"];
+  return errors.length ? { ok: false, errors } : { ok: true, value, text: candidate };
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number" && Number.isInteger(v)) return "integer";
+  return typeof v;
+}
+
+function matchesType(v: unknown, type: string): boolean {
+  const actual = typeOf(v);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Validates `value` against the subset of JSON Schema that structured-output
+ * schemas use (types, properties, required, items, enum, const, combinators,
+ * local `$ref`s and basic bounds). Returns one message per violation.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: Record<string, unknown>,
+  root: Record<string, unknown> = schema,
+  at = "$",
+): string[] {
+  const s = schema as any;
+  if (typeof s.$ref === "string") {
+    const target = resolveRef(root, s.$ref);
+    if (!target) return [`${at}: unresolvable $ref ${s.$ref}`];
+    return validateJsonSchema(value, target, root, at);
+  }
+
+  const errors: string[] = [];
+  if (s.type !== undefined) {
+    const types: string[] = Array.isArray(s.type) ? s.type : [s.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${at}: expected ${types.join(" | ")}, got ${typeOf(value)}`];
+    }
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((e: unknown) => deepEqual(e, value))) {
+    errors.push(`${at}: must be one of ${JSON.stringify(s.enum)}`);
+  }
+  if ("const" in s && !deepEqual(s.const, value)) {
+    errors.push(`${at}: must equal ${JSON.stringify(s.const)}`);
+  }
+
+  for (const sub of s.allOf ?? []) errors.push(...validateJsonSchema(value, sub, root, at));
+  if (Array.isArray(s.anyOf) || Array.isArray(s.oneOf)) {
+    const options: any[] = s.anyOf ?? s.oneOf;
+    const passing = options.filter((o) => !validateJsonSchema(value, o, root, at).length).length;
+    if (passing === 0) errors.push(`${at}: does not match any allowed schema`);
+    else if (s.oneOf && passing > 1) errors.push(`${at}: matches more than one schema in oneOf`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof s.minLength === "number" && value.length < s.minLength) {
+      errors.push(`${at}: shorter than ${s.minLength} characters`);
+    }
+    if (typeof s.maxLength === "number" && value.length > s.maxLength) {
+      errors.push(`${at}: longer than ${s.maxLength} characters`);
+    }
+    if (typeof s.pattern === "string" && !new RegExp(s.pattern, "u").test(value)) {
+      errors.push(`${at}: does not match pattern ${s.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof s.minimum === "number" && value < s.minimum) {
+      errors.push(`${at}: less than ${s.minimum}`);
+    }
+    if (typeof s.maximum === "number" && value > s.maximum) {
+      errors.push(`${at}: greater than ${s.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === "number" && value.length < s.minItems) {
+      errors.push(`${at}: fewer than ${s.minItems} items`);
+    }
+    if (typeof s.maxItems === "number" && value.length > s.maxItems) {
+      errors.push(`${at}: more than ${s.maxItems} items`);
+    }
+    if (isObject(s.items)) {
+      for (const [i, item] of value.entries()) {
+        errors.push(...validateJsonSchema(item, s.items, root, `${at}[${i}]`));
+      }
+    }
+  }
+
+  if (isObject(value)) {
+    const props: Record<string, any> = isObject(s.properties) ? s.properties : {};
+    for (const key of Array.isArray(s.required) ? s.required : []) {
+      if (!(key in value)) errors.push(`${at}: missing required property "${key}"`);
+    }
+    for (const [key, v] of Object.entries(value)) {
+      const path = `${at}.${key}`;
+      if (props[key]) errors.push(...validateJsonSchema(v, props[key], root, path));
+      else if (s.additionalProperties === false) {
+        errors.push(`${at}: unexpected property "${key}"`);
+      } else if (isObject(s.additionalProperties)) {
+        errors.push(...validateJsonSchema(v, s.additionalProperties, root, path));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function resolveRef(root: Record<string, unknown>, ref: string) {
+  if (!ref.startsWith("#")) return undefined;
+  let node: any = root;
+  for (const raw of ref.slice(1).split("/").filter(Boolean)) {
+    node = node?.[raw.replace(/~1/g, "/").replace(/~0/g, "~")];
+  }
+  return isObject(node) ? node : undefined;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,65 @@
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Longest common subsequence table; config files are small enough for O(n*m).
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      out.push({ op: " ", text: a[i++] });
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      out.push({ op: "+", text: b[j++] });
+    } else {
+      out.push({ op: "-", text: a[i++] });
+    }
+  }
+  return out;
+}
+
+/** A unified diff (`--- a/…`, `+++ b/…`, `@@` hunks); empty when nothing changed. */
+export function unifiedDiff(before: string, after: string, fileName: string, context = 3): string {
+  if (before === after) return "";
+  const lines = diffLines(before.split("\n"), after.split("\n"));
+
+  const hunks: string[] = [];
+  let k = 0;
+  while (k < lines.length) {
+    if (lines[k].op === " ") {
+      k++;
+      continue;
+    }
+    // Grow the hunk while changes are within 2 * context lines of each other.
+    const start = Math.max(0, k - context);
+    let end = k;
+    let lastChange = k;
+    while (end < lines.length && end - lastChange <= context * 2) {
+      if (lines[end].op !== " ") lastChange = end;
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (const l of lines.slice(0, start)) {
+      if (l.op !== "+") oldLine++;
+      if (l.op !== "-") newLine++;
+    }
+    const body = lines.slice(start, end);
+    const oldCount = body.filter((l) => l.op !== "+").length;
+    const newCount = body.filter((l) => l.op !== "-").length;
+    hunks.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+    hunks.push(...body.map((l) => `${l.op}${l.text}`));
+    k = end;
+  }
+
+  return [`--- a/${fileName}`, `+++ b/${fileName}`, ...hunks].join("\n");
+}
@@ -0,0 +1,187 @@
+import { randomUUID } from "node:crypto";
+
+import type { OpenAiTool, OpenAiToolCall, OpenAiToolChoice } from "./openai.js";
+
+// Cursor CLI has no native notion of client-side tools, so the bridge describes
+// the request's tools in the prompt and asks the model to answer with a tagged
+// JSON block when it wants OpenCode to run one.
+const OPEN_TAG = "<tool_calls>";
+const CLOSE_TAG = "</tool_calls>";
+
+export type ParsedToolCalls = {
+  content: string;
+  toolCalls: OpenAiToolCall[];
+};
+
+export function newToolCallId(): string {
+  return `call_${randomUUID().replace(/-/g, "").slice(0, 24)}`;
+}
+
+/**
+ * Returns the tools the model should be told about, honoring `tool_choice`.
+ * An empty list means tool calling is off for this request.
+ */
+export function activeTools(
+  tools: OpenAiTool[] | undefined,
+  toolChoice: OpenAiToolChoice | undefined,
+): OpenAiTool[] {
+  const fns = (tools || []).filter((t) => t?.type === "function" && t.function?.name);
+  if (toolChoice === "none") return [];
+  if (toolChoice && typeof toolChoice === "object") {
+    return fns.filter((t) => t.function.name === toolChoice.function?.name);
+  }
+  return fns;
+}
+
+export function buildToolInstructions(args: {
+  tools: OpenAiTool[];
+  toolChoice?: OpenAiToolChoice;
+  parallelToolCalls?: boolean;
+}): string {
+  const specs = args.tools.map((t) => ({
+    name: t.function.name,
+    ...(t.function.description ? { description: t.function.description } : {}),
+    parameters: t.function.parameters ?? { type: "object", properties: {} },
+  }));
+
+  const lines = [
+    "# Tools",
+    "",
+    "The client can run the tools below on your behalf. Do not use any other tools to do the same work.",
+    "",
+    JSON.stringify(specs, null, 2),
+    "",
+    "To call tools, end your reply with exactly one block of this form and write nothing after it:",
+    "",
+    OPEN_TAG,
+    '[{"name": "tool_name", "arguments": {"param": "value"}}]',
+    CLOSE_TAG,
+    "",
+    "`arguments` must be a JSON object that matches the tool's parameters schema.",
+    'Tool results come back as "Tool" messages that carry the matching tool_call_id.',
+  ];
+
+  if (args.parallelToolCalls === false) {
+    lines.push("Call at most one tool per reply.");
+  }
+  if (args.toolChoice === "required") {
+    lines.push("You must call at least one tool in this reply.");
+  } else if (args.toolChoice && typeof args.toolChoice === "object") {
+    lines.push(`You must call the ${args.toolChoice.function.name} tool in this reply.`);
+  } else {
+    lines.push("If no tool is needed, answer normally without the block.");
+  }
+
+  return lines.join("\n");
+}
+
+/** Renders an assistant turn's tool calls the same way the model is asked to emit them. */
+export function formatToolCallsForPrompt(toolCalls: OpenAiToolCall[]): string {
+  const calls = toolCalls.map((c) => {
+    let parsedArgs: unknown = c.function?.arguments;
+    try {
+      parsedArgs = JSON.parse(c.function?.arguments || "{}");
+    } catch {
+      // keep the raw string
+    }
+    return { id: c.id, name: c.function?.name, arguments: parsedArgs };
+  });
+  return `${OPEN_TAG}\n${JSON.stringify(calls)}\n${CLOSE_TAG}`;
+}
+
+function stripCodeFence(raw: string): string {
+  const match = raw.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : raw.trim();
+}
+
+function toToolCalls(raw: string): OpenAiToolCall[] | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(raw));
+  } catch {
+    return undefined;
+  }
+
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  const calls: OpenAiToolCall[] = [];
+  for (const item of items) {
+    const name = (item as { name?: unknown })?.name;
+    if (typeof name !== "string" || !name) return undefined;
+    const rawArgs = (item as { arguments?: unknown }).arguments;
+    calls.push({
+      id: newToolCallId(),
+      type: "function",
+      function: {
+        name,
+        arguments: typeof rawArgs === "string" ? rawArgs : JSON.stringify(rawArgs ?? {}),
+      },
+    });
+  }
+  return calls.length ? calls : undefined;
+}
+
+/**
+ * Splits model output into leading prose and a trailing `<tool_calls>` block.
+ * Output without a well-formed block is returned unchanged as content.
+ */
+export function parseToolCalls(text: string): ParsedToolCalls {
+  const start = text.indexOf(OPEN_TAG);
+  if (start === -1) return { content: text, toolCalls: [] };
+
+  const end = text.indexOf(CLOSE_TAG, start);
+  const inner = text.slice(start + OPEN_TAG.length, end === -1 ? undefined : end);
+  const toolCalls = toToolCalls(inner);
+  if (!toolCalls) return { content: text, toolCalls: [] };
+
+  return { content: text.slice(0, start).trim(), toolCalls };
+}
+
+/**
+ * Streaming version of `parseToolCalls`: passes prose through as it arrives
+ * but holds back anything that could be the start of a `<tool_calls>` block.
+ */
+export function createToolCallFilter() {
+  let pending = "";
+  let captured: string | undefined;
+
+  return {
+    /** Returns the part of `delta` that is safe to forward as content. */
+    push(delta: string): string {
+      if (captured !== undefined) {
+        captured += delta;
+        return "";
+      }
+
+      pending += delta;
+      const idx = pending.indexOf(OPEN_TAG);
+      if (idx !== -1) {
+        const out = pending.slice(0, idx);
+        captured = pending.slice(idx);
+        pending = "";
+        return out;
+      }
+
+      let keep = 0;
+      for (let k = Math.min(OPEN_TAG.length - 1, pending.length); k > 0; k--) {
+        if (OPEN_TAG.startsWith(pending.slice(-k))) {
+          keep = k;
+          break;
+        }
+      }
+      const out = pending.slice(0, pending.length - keep);
+      pending = pending.slice(pending.length - keep);
+      return out;
+    },
+    /** Flushes held-back text and returns any tool calls found. */
+    finish(): ParsedToolCalls {
+      if (captured === undefined) {
+        const out = pending;
+        pending = "";
+        return { content: out, toolCalls: [] };
+      }
+      const parsed = parseToolCalls(captured);
+      captured = undefined;
+      return parsed;
+    },
+  };
+}
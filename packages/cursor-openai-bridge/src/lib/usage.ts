@@ -0,0 +1,101 @@
+export type UsageSource = "cursor_cli" | "estimate";
+
+/** OpenAI `usage` plus `source`: whether the numbers were measured or estimated. */
+export type TokenUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens: number };
+  source: UsageSource;
+};
+
+type CursorUsage = {
+  input: number;
+  output: number;
+  cached: number;
+};
+
+function pickNumber(obj: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const k of keys) {
+    const v = obj[k];
+    if (typeof v === "number" && Number.isFinite(v) && v >= 0) return v;
+  }
+  return undefined;
+}
+
+/**
+ * Reads the `usage` object Cursor CLI attaches to its stream-json `result`
+ * event. Field names have varied between CLI releases, so accept the common
+ * spellings and return undefined when nothing usable is present.
+ */
+export function readCursorUsage(raw: unknown): CursorUsage | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const u = raw as Record<string, unknown>;
+
+  const input = pickNumber(u, ["inputTokens", "input_tokens", "prompt_tokens"]);
+  const output = pickNumber(u, ["outputTokens", "output_tokens", "completion_tokens"]);
+  if (input === undefined && output === undefined) return undefined;
+
+  const cacheRead = pickNumber(u, ["cacheReadTokens", "cache_read_input_tokens"]) ?? 0;
+  const cacheWrite = pickNumber(u, ["cacheWriteTokens", "cache_creation_input_tokens"]) ?? 0;
+
+  return {
+    input: (input ?? 0) + cacheRead + cacheWrite,
+    output: output ?? 0,
+    cached: cacheRead,
+  };
+}
+
+// CJK characters are roughly one token each; other words average about four
+// characters per token; punctuation and symbols are one token each.
+const TOKEN_PIECE =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}_]+|\S/gu;
+
+/** Cheap, dependency-free token estimate used when Cursor CLI reports no usage. */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(TOKEN_PIECE)) {
+    const piece = match[0];
+    tokens += piece.length > 1 ? Math.ceil(piece.length / 4) : 1;
+  }
+  return tokens;
+}
+
+export function resolveUsage(args: {
+  cursorUsage?: unknown;
+  prompt: string;
+  completion: string;
+}): TokenUsage {
+  const measured = readCursorUsage(args.cursorUsage);
+  if (measured) {
+    return {
+      prompt_tokens: measured.input,
+      completion_tokens: measured.output,
+      total_tokens: measured.input + measured.output,
+      ...(measured.cached ? { prompt_tokens_details: { cached_tokens: measured.cached } } : {}),
+      source: "cursor_cli",
+    };
+  }
+
+  const promptTokens = estimateTokens(args.prompt);
+  const completionTokens = estimateTokens(args.completion);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    source: "estimate",
+  };
+}
+
+/** Sums usage across several Cursor CLI runs that answered one request. */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const cached =
+    (a.prompt_tokens_details?.cached_tokens ?? 0) + (b.prompt_tokens_details?.cached_tokens ?? 0);
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+    ...(cached ? { prompt_tokens_details: { cached_tokens: cached } } : {}),
+    source: a.source === "cursor_cli" && b.source === "cursor_cli" ? "cursor_cli" : "estimate",
+  };
+}
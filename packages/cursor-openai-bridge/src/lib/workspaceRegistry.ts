@@ -0,0 +1,65 @@
+import { randomBytes } from "node:crypto";
+
+/** One client's claim on a workspace, from POST /v1/workspaces. */
+export type WorkspaceRegistration = {
+  token: string;
+  workspace: string;
+  /** Client process; the registration lapses once it has exited. */
+  pid?: number;
+  client?: string;
+  registeredAt: number;
+};
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to someone else.
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Workspaces registered by clients (one per OpenCode window), keyed by the
+ * scoped token each client sends as X-Cursor-Workspace-Token. Several clients
+ * may share a workspace; `onEmpty` fires whenever the last registration goes,
+ * whether released or lapsed because its process exited.
+ */
+export function createWorkspaceRegistry(opts: { onEmpty?: () => void } = {}) {
+  const byToken = new Map<string, WorkspaceRegistration>();
+
+  const remove = (token: string) => {
+    if (!byToken.delete(token)) return false;
+    if (byToken.size === 0) opts.onEmpty?.();
+    return true;
+  };
+
+  return {
+    register(args: { workspace: string; pid?: number; client?: string }): WorkspaceRegistration {
+      const token = `cws_${randomBytes(24).toString("hex")}`;
+      const entry = { token, ...args, registeredAt: Date.now() };
+      byToken.set(entry.token, entry);
+      return entry;
+    },
+    get(token: string): WorkspaceRegistration | undefined {
+      return byToken.get(token);
+    },
+    release: remove,
+    /** Drops registrations whose client process has exited; returns how many. */
+    prune(): number {
+      const dead = [...byToken.values()].filter((r) => r.pid !== undefined && !isAlive(r.pid));
+      for (const r of dead) remove(r.token);
+      return dead.length;
+    },
+    /** Reference counts per workspace, for /health and GET /v1/workspaces. */
+    summary(): { workspace: string; refs: number }[] {
+      const refs = new Map<string, number>();
+      for (const r of byToken.values()) refs.set(r.workspace, (refs.get(r.workspace) ?? 0) + 1);
+      return [...refs].map(([workspace, n]) => ({ workspace, refs: n }));
+    },
+    size: () => byToken.size,
+  };
+}
+
+export type WorkspaceRegistry = ReturnType<typeof createWorkspaceRegistry>;
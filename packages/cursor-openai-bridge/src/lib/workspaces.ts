@@ -0,0 +1,121 @@
+import { existsSync } from "node:fs";
+import { realpath, stat } from "node:fs/promises";
+import * as path from "node:path";
+
+import type { BridgeConfig } from "./config.js";
+import { HttpError } from "./http.js";
+import { createRotatingFile, type Logger } from "./logger.js";
+
+/** Who asked for a workspace, recorded in the audit log when it is refused. */
+export type WorkspaceRequester = {
+  requestId: string;
+  model?: string;
+  remoteAddress?: string;
+  userAgent?: string;
+};
+
+/** `dir` itself or anything below it. */
+export function isWithin(dir: string, root: string): boolean {
+  const rel = path.relative(root, dir);
+  return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
+
+function isInGitRepo(dir: string): boolean {
+  for (let d = dir; ; d = path.dirname(d)) {
+    if (existsSync(path.join(d, ".git"))) return true;
+    if (path.dirname(d) === d) return false;
+  }
+}
+
+/**
+ * Checks X-Cursor-Workspace values before they reach `--workspace`: the path,
+ * with symlinks resolved, must be an existing directory under one of
+ * `workspaceRoots` (or the configured workspaces when there are none), and
+ * inside a git repository when `requireGitWorkspace` is on. Refusals are
+ * written to `auditLogFile`.
+ *
+ * Registrations (POST /v1/workspaces) pass the same checks, unless the
+ * client proved it can read the lock file (`anyRoot`).
+ */
+export function createWorkspaceGuard(config: BridgeConfig, log: Logger) {
+  const audit = createRotatingFile(config.auditLogFile, config.logMaxBytes, config.logMaxFiles);
+
+  /** Real paths of the allowed roots; read per call so config reloads apply. */
+  async function roots(): Promise<string[]> {
+    const configured = config.workspaceRoots.length
+      ? config.workspaceRoots
+      : [config.workspace, ...Object.values(config.profiles).flatMap((p) => p.workspace ?? [])];
+    const resolved = await Promise.all(configured.map((r) => realpath(r).catch(() => undefined)));
+    return resolved.filter((r): r is string => Boolean(r));
+  }
+
+  function refuse(
+    status: number,
+    code: string,
+    message: string,
+    entry: { requested: string; resolved?: string; who: WorkspaceRequester },
+  ): never {
+    const { who, ...rest } = entry;
+    const time = new Date().toISOString();
+    audit(`${JSON.stringify({ time, event: "workspace_rejected", code, ...who, ...rest })}\n`);
+    log.warn(`workspace rejected (${code}): ${entry.requested}`, {
+      requestId: who.requestId,
+      code,
+    });
+    throw new HttpError(status, code, message);
+  }
+
+  return {
+    /** The real path of `requested`, or an HttpError (400/403) when it may not be used. */
+    async check(
+      requested: string,
+      who: WorkspaceRequester,
+      opts: { anyRoot?: boolean } = {},
+    ): Promise<string> {
+      const absolute = path.resolve(requested);
+      const allowed = await roots();
+      const inRoots = (dir: string) =>
+        Boolean(opts.anyRoot) || allowed.some((root) => isWithin(dir, root));
+
+      const resolved = await realpath(absolute).catch(() => undefined);
+      if (!resolved) {
+        // Only say a path is missing when it would have been allowed, so the
+        // header cannot probe for files elsewhere.
+        if (!inRoots(absolute)) {
+          refuse(403, "workspace_not_allowed", "Workspace is outside the allowed roots", {
+            requested,
+            who,
+          });
+        }
+        refuse(400, "workspace_not_found", `Workspace does not exist: ${requested}`, {
+          requested,
+          who,
+        });
+      }
+      if (!inRoots(resolved)) {
+        refuse(403, "workspace_not_allowed", "Workspace is outside the allowed roots", {
+          requested,
+          resolved,
+          who,
+        });
+      }
+      if (!(await stat(resolved)).isDirectory()) {
+        refuse(400, "workspace_not_found", `Workspace is not a directory: ${requested}`, {
+          requested,
+          resolved,
+          who,
+        });
+      }
+      if (config.requireGitWorkspace && !isInGitRepo(resolved)) {
+        refuse(403, "workspace_not_git", `Workspace is not inside a git repository: ${requested}`, {
+          requested,
+          resolved,
+          who,
+        });
+      }
+      return resolved;
+    },
+  };
+}
+
+export type WorkspaceGuard = ReturnType<typeof createWorkspaceGuard>;
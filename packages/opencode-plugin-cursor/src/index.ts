@@ -1,10 +1,19 @@
 import type { Plugin } from "@opencode-ai/plugin";
 
-import { ensureBridgeProcess } from "./lib/bridge.js";
+import {
+  ensureBridgeProcess,
+  forgetWorkspaceToken,
+  getBridgeBaseURL,
+  getWorkspaceToken,
+  upgradeStaleBridge,
+  type BridgeUpgrade,
+} from "./lib/bridge.js";
 import { ensurePluginShowsVersionInStatus } from "./lib/pluginShim.js";
+import { createBridgeWatchdog } from "./lib/watchdog.js";
 import { createBridgeTools } from "./tools/bridge.js";
 import { createCliTools } from "./tools/cli.js";
 import { createCloudTools } from "./tools/cloud.js";
+import { createSyncTools } from "./tools/sync.js";
 
 function getCursorAgentBin(): string {
   return (
@@ -15,6 +24,44 @@ function getCursorAgentBin(): string {
   );
 }
 
+/** A bridge address on this machine, as opposed to a bridge the user runs elsewhere. */
+function isLocalURL(url: string): boolean {
+  return /^https?:\/\/(127\.0\.0\.1|localhost|\[::1\])(:\d+)?(\/|$)/.test(url);
+}
+
+/** Tells the user about a bridge running other code than this plugin expects. */
+async function reportBridgeUpgrade(client: any, upgrade: BridgeUpgrade) {
+  const { bridge, expected } = upgrade;
+  const running = `v${bridge.version ?? "?"} (protocol ${bridge.protocol ?? 1})`;
+  let message: string;
+  let variant: "success" | "warning" | "error";
+  if (upgrade.restarted) {
+    message = `Restarted the bridge to pick up v${bridge.version ?? "?"}.`;
+    variant = "success";
+  } else if (upgrade.status === "incompatible") {
+    message =
+      `The running bridge ${running} does not speak protocol ${expected.protocol} and was ` +
+      `not restarted: ${upgrade.reason}. Cursor models may fail; run cursor_bridge_stop ` +
+      "and cursor_bridge_start.";
+    variant = "error";
+  } else if (upgrade.status === "outdated") {
+    message =
+      `The running bridge ${running} is not the installed build (v${expected.version ?? "?"}) ` +
+      `and was not restarted: ${upgrade.reason}. Restart it with cursor_bridge_stop and ` +
+      "cursor_bridge_start when convenient.";
+    variant = "warning";
+  } else {
+    return;
+  }
+  try {
+    await client?.tui?.showToast?.({
+      body: { title: "Cursor bridge", message, variant, duration: 10_000 },
+    });
+  } catch {
+    // ignore
+  }
+}
+
 export const CursorPlugin: Plugin = async ({ client, directory, worktree }) => {
   const agentBin = getCursorAgentBin();
   const cwd = directory || process.cwd();
@@ -27,12 +74,51 @@ export const CursorPlugin: Plugin = async ({ client, directory, worktree }) => {
 
   // Ensure the Cursor OpenAI-compatible bridge process is running.
   await ensureBridgeProcess(agentBin, cwd);
+  // A bridge left running from before a rebuild still runs the old code.
+  const upgrade = await upgradeStaleBridge(agentBin, cwd).catch(() => undefined);
+  if (upgrade) await reportBridgeUpgrade(client, upgrade);
+  // ...and restart it if it crashes later on.
+  const watchdog = createBridgeWatchdog({ client, agentBin, cwd });
+  watchdog.start();
 
   return {
+    // The bridge may have fallen back to a free port; point the local cursor
+    // provider at wherever it actually listens.
+    async config(cfg) {
+      const provider = cfg.provider?.cursor;
+      if (!provider) return;
+      const current = provider.options?.baseURL;
+      if (typeof current === "string" && !isLocalURL(current)) return;
+      provider.options = { ...provider.options, baseURL: `${getBridgeBaseURL()}/v1` };
+    },
+    // A 401/403 may mean the bridge no longer knows this window's token, e.g.
+    // after it was restarted by hand; register again on the next request.
+    async event({ event }) {
+      if (event.type !== "session.error") return;
+      const { error } = event.properties;
+      if (error?.name !== "APIError") return;
+      const status = error.data.statusCode;
+      if (status === 401 || status === 403) forgetWorkspaceToken();
+    },
+    // Route this window's requests to its own project on the shared bridge.
+    async "chat.headers"(input, output) {
+      const baseURL = input.provider.options?.baseURL;
+      const viaBridge =
+        input.provider.info.id === "cursor" ||
+        (typeof baseURL === "string" && baseURL.startsWith(getBridgeBaseURL()));
+      if (!viaBridge) return;
+      // Registration is retried on every request until it succeeds. Meanwhile
+      // the project goes in X-Cursor-Workspace, which the bridge either honors
+      // or rejects outright, so the run never lands in its default workspace.
+      const token = await getWorkspaceToken(cwd);
+      if (token) output.headers["X-Cursor-Workspace-Token"] = token;
+      else output.headers["X-Cursor-Workspace"] = cwd;
+    },
     tool: {
-      ...createBridgeTools({ agentBin, cwd }),
+      ...createBridgeTools({ agentBin, cwd, watchdog }),
       ...createCliTools({ agentBin, cwd, repoRoot }),
       ...createCloudTools({ cwd }),
+      ...createSyncTools({ agentBin, cwd }),
     },
   };
 };
@@ -1,9 +1,14 @@
-import { spawn } from "node:child_process";
-import { mkdir, readFile, unlink, writeFile } from "node:fs/promises";
+import { spawn, type ChildProcess } from "node:child_process";
+import { createHmac, randomBytes } from "node:crypto";
+import { closeSync, mkdirSync, openSync, readFileSync } from "node:fs";
+import { readFile, stat, unlink } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import * as path from "node:path";
 import { fileURLToPath } from "node:url";
 
+/** The bridge protocol this plugin speaks; see BRIDGE_PROTOCOL_VERSION in the bridge. */
+const BRIDGE_PROTOCOL_VERSION = 1;
+
 function getBridgeHost(): string {
   return process.env.CURSOR_BRIDGE_HOST || "127.0.0.1";
 }
@@ -14,21 +19,31 @@ function getBridgePort(): number {
   return Number.isFinite(n) && n > 0 ? n : 8765;
 }
 
+/**
+ * Where the bridge listens: the address in its lock file, which differs from
+ * the configured port when that was taken and the bridge fell back to a free one.
+ */
 export function getBridgeBaseURL(): string {
-  return `http://${getBridgeHost()}:${getBridgePort()}`;
+  return readBridgeLock()?.baseURL ?? `http://${getBridgeHost()}:${getBridgePort()}`;
 }
 
 export function getBridgeHealthURL(): string {
   return `${getBridgeBaseURL()}/health`;
 }
 
-function shouldAutostartBridge(): boolean {
+/** Sent on every request to the bridge; /health is behind its API key too. */
+function bridgeAuthHeaders(): Record<string, string> {
+  const key = process.env.CURSOR_BRIDGE_API_KEY;
+  return key ? { Authorization: `Bearer ${key}` } : {};
+}
+
+export function shouldAutostartBridge(): boolean {
   const raw = process.env.CURSOR_BRIDGE_AUTOSTART;
   if (!raw) return true;
   return !(raw === "0" || raw.toLowerCase() === "false");
 }
 
-function getBridgeScriptPath(): string | undefined {
+export function getBridgeScriptPath(): string | undefined {
   const envPath = process.env.CURSOR_OPENAI_BRIDGE_SCRIPT;
   if (envPath) return envPath;
 
@@ -38,36 +53,116 @@ function getBridgeScriptPath(): string | undefined {
   return path.resolve(pkgRoot, "../cursor-openai-bridge/dist/cli.js");
 }
 
-function getBridgePidPath(): string {
+/** Runtime for the bridge CLI: node, even when the plugin itself runs under Bun. */
+export function getBridgeNodeBin(): string {
+  return process.env.CURSOR_BRIDGE_NODE_BIN || "node";
+}
+
+function getDataDir(): string {
   const home = process.env.HOME || tmpdir();
-  return path.join(home, ".local", "share", "opencode", "cursor-openai-bridge.pid");
+  return path.join(home, ".local", "share", "opencode");
 }
 
-export async function isBridgeUp(timeoutMs = 500): Promise<boolean> {
+function getBridgeLockPath(): string {
+  return (
+    process.env.CURSOR_BRIDGE_LOCK_FILE || path.join(getDataDir(), "cursor-openai-bridge.lock.json")
+  );
+}
+
+/** What the running bridge wrote about itself on startup; see the bridge's lockFile.ts. */
+export type BridgeLock = {
+  pid: number;
+  startedAt: string;
+  port: number;
+  baseURL: string;
+  version: string;
+  secret: string;
+};
+
+export function readBridgeLock(): BridgeLock | undefined {
+  try {
+    const lock = JSON.parse(readFileSync(getBridgeLockPath(), "utf8")) as BridgeLock;
+    return Number.isInteger(lock.pid) && typeof lock.baseURL === "string" ? lock : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** The bridge's JSON-lines log, unless its config file moved it elsewhere. */
+export function getBridgeLogPath(): string {
+  return process.env.CURSOR_BRIDGE_LOG_FILE || path.join(getDataDir(), "cursor-openai-bridge.log");
+}
+
+/** Where the plugin's watchdog records each time the bridge went down. */
+export function getBridgeCrashLogPath(): string {
+  return path.join(getDataDir(), "cursor-openai-bridge.crash.log");
+}
+
+/** Stderr of the detached bridge: startup failures that happen before it can log. */
+export function getBridgeStderrPath(): string {
+  return path.join(getDataDir(), "cursor-openai-bridge.stderr.log");
+}
+
+/**
+ * The lock of the bridge answering at its address, once /health has proved it
+ * is the process that wrote the lock: it must echo the lock's pid and sign a
+ * fresh nonce with the lock's secret. A reused pid or an unrelated server on
+ * the port fails this, so it is never reused or killed.
+ */
+async function verifyBridge(timeoutMs: number): Promise<BridgeLock | undefined> {
+  const lock = readBridgeLock();
+  if (!lock) return undefined;
+  const nonce = randomBytes(16).toString("hex");
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    const res = await fetch(getBridgeHealthURL(), { signal: controller.signal });
-    return res.ok;
+    const res = await fetch(`${lock.baseURL}/health`, {
+      headers: { "X-Bridge-Nonce": nonce, ...bridgeAuthHeaders() },
+      signal: controller.signal,
+    });
+    if (!res.ok) return undefined;
+    const { instance } = (await res.json()) as { instance?: { pid?: number; proof?: string } };
+    const proof = createHmac("sha256", lock.secret).update(nonce).digest("hex");
+    return instance?.pid === lock.pid && instance.proof === proof ? lock : undefined;
   } catch {
-    return false;
+    return undefined;
   } finally {
     clearTimeout(timeout);
   }
 }
 
-/**
- * Returns the workspace the running bridge was started with, or undefined if
- * the bridge is not reachable.
- */
-export async function getBridgeWorkspace(timeoutMs = 500): Promise<string | undefined> {
+export async function isBridgeUp(timeoutMs = 500): Promise<boolean> {
+  return Boolean(await verifyBridge(timeoutMs));
+}
+
+type BridgeHealth = {
+  version?: string;
+  build?: string;
+  protocol?: number;
+  queue?: { active?: number; queued?: number };
+  workspace?: string;
+  config?: { effective?: { logFile?: string } };
+};
+
+async function getBridgeHealth(timeoutMs: number): Promise<BridgeHealth | undefined> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    const res = await fetch(getBridgeHealthURL(), { signal: controller.signal });
+    const res = await fetch(getBridgeHealthURL(), {
+      headers: bridgeAuthHeaders(),
+      signal: controller.signal,
+    });
     if (!res.ok) return undefined;
-    const data = (await res.json()) as { workspace?: string };
-    return data.workspace;
+    return (await res.json()) as BridgeHealth;
   } catch {
     return undefined;
   } finally {
@@ -75,6 +170,48 @@ export async function getBridgeWorkspace(timeoutMs = 500): Promise<string | unde
   }
 }
 
+/** The log file of the running bridge, falling back to the default location. */
+export async function resolveBridgeLogPath(timeoutMs = 500): Promise<string> {
+  return (await getBridgeHealth(timeoutMs))?.config?.effective?.logFile ?? getBridgeLogPath();
+}
+
+// The last bridge this plugin started, until it proves itself through /health.
+// The ChildProcess (not just its pid) tells whether it has exited, so a reused
+// pid is never signalled.
+let unverified: ChildProcess | undefined;
+
+/** Stops the bridge this plugin last started if it never became the verified one. */
+function stopUnverifiedBridge() {
+  const child = unverified;
+  unverified = undefined;
+  if (!child || child.exitCode !== null || child.signalCode !== null) return;
+  if (child.pid === readBridgeLock()?.pid) return;
+  child.kill("SIGTERM");
+}
+
+/**
+ * Whether the lock file's bridge process is alive and its address answers,
+ * yet it fails verification (e.g. an API key mismatch). Starting another
+ * bridge then would only pile up processes.
+ */
+async function isUnverifiedBridgeListening(): Promise<boolean> {
+  const lock = readBridgeLock();
+  if (!lock || !isAlive(lock.pid)) return false;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 500);
+  try {
+    await fetch(`${lock.baseURL}/health`, {
+      headers: bridgeAuthHeaders(),
+      signal: controller.signal,
+    });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 export async function startBridgeDetached(agentBin: string, workspace?: string): Promise<number> {
   const script = getBridgeScriptPath();
   if (!script) {
@@ -83,16 +220,23 @@ export async function startBridgeDetached(agentBin: string, workspace?: string):
     );
   }
 
-  const nodeBin = process.env.CURSOR_BRIDGE_NODE_BIN || "node";
+  const nodeBin = getBridgeNodeBin();
+  mkdirSync(getDataDir(), { recursive: true });
+  const stderrFd = openSync(getBridgeStderrPath(), "w");
   const child = spawn(nodeBin, [script], {
     detached: true,
-    stdio: "ignore",
+    stdio: ["ignore", "ignore", stderrFd],
     env: {
       ...process.env,
       CURSOR_AGENT_BIN: agentBin,
       ...(workspace && !process.env.CURSOR_BRIDGE_WORKSPACE
         ? { CURSOR_BRIDGE_WORKSPACE: workspace }
         : {}),
+      // One bridge serves every OpenCode window, each through its registered
+      // workspace token, and exits after the last window.
+      ...(process.env.CURSOR_BRIDGE_EXIT_WHEN_UNUSED
+        ? {}
+        : { CURSOR_BRIDGE_EXIT_WHEN_UNUSED: "true" }),
       // Bridge defaults are safe, but set explicit defaults on spawn for robustness.
       ...(process.env.CURSOR_BRIDGE_MODE ? {} : { CURSOR_BRIDGE_MODE: "ask" }),
       ...(process.env.CURSOR_BRIDGE_FORCE ? {} : { CURSOR_BRIDGE_FORCE: "false" }),
@@ -101,73 +245,235 @@ export async function startBridgeDetached(agentBin: string, workspace?: string):
         : { CURSOR_BRIDGE_APPROVE_MCPS: "false" }),
     },
   });
+  closeSync(stderrFd);
 
   if (!child.pid) {
     throw new Error("Failed to spawn cursor-openai-bridge (no pid)");
   }
 
+  // The bridge writes its lock file once it is listening.
   child.unref();
-
-  const pidPath = getBridgePidPath();
-  await mkdir(path.dirname(pidPath), { recursive: true });
-  await writeFile(pidPath, String(child.pid), "utf8");
+  unverified = child;
   return child.pid;
 }
 
-export async function stopBridgeByPidFile(): Promise<boolean> {
-  const pidPath = getBridgePidPath();
+/**
+ * Stops the bridge named in the lock file, after /health has confirmed the
+ * pid is still that bridge. A lock whose process is gone is removed.
+ */
+export async function stopBridge(): Promise<boolean> {
+  const lock = await verifyBridge(1_000);
+  if (!lock) {
+    const stale = readBridgeLock();
+    if (stale && !isAlive(stale.pid)) await unlink(getBridgeLockPath()).catch(() => undefined);
+    return false;
+  }
+  try {
+    process.kill(lock.pid, "SIGTERM");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+type Registration = { token: string; workspace: string };
+
+// This OpenCode window's claim on its workspace; one per plugin instance.
+let registration: Registration | undefined;
+let registrationError: string | undefined;
+
+/**
+ * Registers `workspace` with the running bridge (POST /v1/workspaces) and
+ * returns the scoped token that routes requests to it. The bridge counts
+ * registrations and drops this one when the OpenCode process exits.
+ */
+export async function registerWorkspace(workspace: string): Promise<string | undefined> {
+  // Signing the path with the lock file's secret lets the bridge accept this
+  // window's project even outside its workspace roots.
+  const lock = readBridgeLock();
+  const proof = lock
+    ? createHmac("sha256", lock.secret).update(`workspace:${workspace}`).digest("hex")
+    : undefined;
   try {
-    const raw = await readFile(pidPath, "utf8");
-    const pid = Number(raw.trim());
-    if (!Number.isFinite(pid) || pid <= 0) {
-      await unlink(pidPath);
-      return false;
+    const res = await fetch(`${getBridgeBaseURL()}/v1/workspaces`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...bridgeAuthHeaders() },
+      body: JSON.stringify({ workspace, pid: process.pid, client: "opencode", proof }),
+    });
+    const body = (await res.json().catch(() => ({}))) as {
+      token?: string;
+      error?: { message?: string };
+    };
+    if (!res.ok || !body.token) {
+      registrationError = body.error?.message ?? `HTTP ${res.status}`;
+      registration = undefined;
+      return undefined;
     }
+    registration = { token: body.token, workspace };
+    registrationError = undefined;
+    return body.token;
+  } catch (err) {
+    registrationError = (err as Error).message;
+    return undefined;
+  }
+}
+
+/**
+ * The token for `workspace`: the cached one, or a new registration when there
+ * is none. Restarts by the watchdog register again on their own; a token the
+ * bridge rejects is dropped with `forgetWorkspaceToken`.
+ */
+export async function getWorkspaceToken(workspace: string): Promise<string | undefined> {
+  if (registration?.workspace === workspace) return registration.token;
+  return registerWorkspace(workspace);
+}
 
+/** Drops the cached token so the next request registers again. */
+export function forgetWorkspaceToken() {
+  registration = undefined;
+}
+
+/** Releases this window's registration (DELETE /v1/workspaces/:token), if any. */
+export async function releaseWorkspace(): Promise<boolean> {
+  if (!registration) return false;
+  const { token } = registration;
+  registration = undefined;
+  const res = await fetch(`${getBridgeBaseURL()}/v1/workspaces/${token}`, {
+    method: "DELETE",
+    headers: bridgeAuthHeaders(),
+  }).catch(() => undefined);
+  return Boolean(res?.ok);
+}
+
+/** This window's registration, for cursor_bridge_status. */
+export function getWorkspaceRegistration() {
+  return {
+    workspace: registration?.workspace,
+    registered: Boolean(registration),
+    ...(registrationError ? { error: registrationError } : {}),
+  };
+}
+
+/**
+ * Makes sure a bridge is running and that `workspace` is registered with it.
+ * A bridge already started by another OpenCode window is shared rather than
+ * restarted, so that window's requests keep running. Resolves to whether the
+ * bridge is up. A bridge this plugin started earlier that never came up is
+ * stopped first, and nothing is started while an unverifiable one answers.
+ */
+export async function ensureBridgeProcess(agentBin: string, workspace?: string): Promise<boolean> {
+  if (!shouldAutostartBridge()) return false;
+
+  if (!(await isBridgeUp())) {
+    if (await isUnverifiedBridgeListening()) return false;
+    stopUnverifiedBridge();
     try {
-      process.kill(pid, "SIGTERM");
+      await startBridgeDetached(agentBin, workspace);
+
+      const start = Date.now();
+      while (Date.now() - start < 3_000) {
+        if (await isBridgeUp(300)) break;
+        await new Promise((r) => setTimeout(r, 200));
+      }
     } catch {
-      // ignore
+      // Best-effort. If it fails, the provider will error when used.
+      return false;
     }
+    if (!(await isBridgeUp(300))) return false;
+  }
+  // Either ours is now the verified bridge, or another one won and ours exits.
+  stopUnverifiedBridge();
 
-    await unlink(pidPath);
-    return true;
+  if (workspace) await registerWorkspace(workspace);
+  return true;
+}
+
+async function waitForBridgeDown(timeoutMs: number): Promise<boolean> {
+  const start = Date.now();
+  while (Date.now() - start < timeoutMs) {
+    if (!(await isBridgeUp(300))) return true;
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  return false;
+}
+
+export type BridgeVersionCheck = {
+  status: "current" | "outdated" | "incompatible" | "unknown";
+  bridge: { version?: string; build?: string; protocol?: number };
+  expected: { version?: string; build?: string; protocol: number };
+};
+
+/** Version of the bridge package on disk; its cli.js sits one level below package.json. */
+async function readBridgePackageVersion(script: string): Promise<string | undefined> {
+  try {
+    const pkgPath = path.resolve(path.dirname(script), "..", "package.json");
+    const pkg = JSON.parse(await readFile(pkgPath, "utf8")) as { version?: unknown };
+    return typeof pkg.version === "string" ? pkg.version : undefined;
   } catch {
-    return false;
+    return undefined;
   }
 }
 
-export async function ensureBridgeProcess(agentBin: string, workspace?: string) {
-  if (!shouldAutostartBridge()) return;
+/**
+ * Compares the running bridge with the bridge build on disk and the protocol
+ * this plugin speaks.
+ * `outdated`: same protocol but an older version or build, e.g. after a pull
+ * and rebuild. `incompatible`: a different protocol, which this plugin cannot
+ * talk to reliably. `unknown`: no verified bridge is running.
+ */
+export async function checkBridgeVersion(): Promise<BridgeVersionCheck> {
+  const script = getBridgeScriptPath();
+  const expected = {
+    version: script ? await readBridgePackageVersion(script) : undefined,
+    build: script ? (await stat(script).catch(() => undefined))?.mtime.toISOString() : undefined,
+    protocol: BRIDGE_PROTOCOL_VERSION,
+  };
+  const health = (await verifyBridge(1_000)) ? await getBridgeHealth(1_000) : undefined;
+  if (!health) return { status: "unknown", bridge: {}, expected };
+  const bridge = { version: health.version, build: health.build, protocol: health.protocol };
+  // Bridges from before the handshake report no protocol; treat them as protocol 1.
+  if ((bridge.protocol ?? 1) !== expected.protocol) {
+    return { status: "incompatible", bridge, expected };
+  }
+  const stale =
+    (expected.version && bridge.version !== expected.version) ||
+    (expected.build && bridge.build && bridge.build !== expected.build);
+  return { status: stale ? "outdated" : "current", bridge, expected };
+}
 
-  // If the bridge is already running, check whether its workspace matches.
-  // When the workspace differs (e.g. OpenCode opened a different project), restart
-  // the bridge so the new project gets the correct --workspace flag.
-  if (await isBridgeUp()) {
-    if (workspace) {
-      const running = await getBridgeWorkspace();
-      if (running && path.resolve(running) !== path.resolve(workspace)) {
-        // Workspace mismatch — stop the old bridge and start a new one.
-        await stopBridgeByPidFile();
-        // Give the OS a moment to release the port.
-        await new Promise((r) => setTimeout(r, 300));
-      } else {
-        return; // bridge is up and workspace matches (or we don't care)
-      }
-    } else {
-      return; // no workspace preference — whatever is running is fine
-    }
+export type BridgeUpgrade = BridgeVersionCheck & {
+  restarted: boolean;
+  /** Why an outdated bridge was left running. */
+  reason?: string;
+};
+
+/**
+ * Restarts a bridge left over from an older build so new code takes effect.
+ * Only a bridge verified through its lock file is stopped, and only while it
+ * has no requests running or queued, since other windows may share it; their
+ * watchdogs and workspace tokens pick up the new process.
+ */
+export async function upgradeStaleBridge(
+  agentBin: string,
+  workspace?: string,
+): Promise<BridgeUpgrade> {
+  const check = await checkBridgeVersion();
+  if (check.status === "current" || check.status === "unknown") {
+    return { ...check, restarted: false };
   }
+  const keep = (reason: string): BridgeUpgrade => ({ ...check, restarted: false, reason });
+  if (!shouldAutostartBridge()) return keep("CURSOR_BRIDGE_AUTOSTART is off");
 
-  try {
-    await startBridgeDetached(agentBin, workspace);
+  const queue = (await getBridgeHealth(1_000))?.queue;
+  if (queue?.active || queue?.queued) return keep("the bridge is serving requests");
 
-    const start = Date.now();
-    while (Date.now() - start < 3_000) {
-      if (await isBridgeUp(300)) return;
-      await new Promise((r) => setTimeout(r, 200));
-    }
-  } catch {
-    // Best-effort. If it fails, the provider will error when used.
+  await releaseWorkspace();
+  if (!(await stopBridge()) || !(await waitForBridgeDown(5_000))) {
+    if (workspace) await registerWorkspace(workspace);
+    return keep("the bridge could not be stopped");
+  }
+  if (!(await ensureBridgeProcess(agentBin, workspace))) {
+    return keep("the new bridge did not start; see cursor_bridge_logs");
   }
+  return { ...(await checkBridgeVersion()), restarted: true };
 }
@@ -0,0 +1,59 @@
+import { open } from "node:fs/promises";
+
+export type BridgeLogEntry = {
+  time?: string;
+  level?: string;
+  msg?: string;
+  requestId?: string;
+  [key: string]: unknown;
+};
+
+const LEVELS = ["debug", "info", "warn", "error"];
+
+/** Reads at most the last `maxBytes` of a file; missing files read as "". */
+export async function readTail(file: string, maxBytes: number): Promise<string> {
+  let handle;
+  try {
+    handle = await open(file, "r");
+  } catch {
+    return "";
+  }
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, maxBytes);
+    const buf = Buffer.alloc(length);
+    await handle.read(buf, 0, length, size - length);
+    const text = buf.toString("utf8");
+    // Drop the first, probably partial, line when the read started mid-file.
+    return length < size ? text.slice(text.indexOf("\n") + 1) : text;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * The last `lines` entries of the bridge's JSON-lines log, optionally only
+ * those at or above `level` or belonging to one request.
+ */
+export async function tailBridgeLog(args: {
+  file: string;
+  lines: number;
+  level?: string;
+  requestId?: string;
+}): Promise<BridgeLogEntry[]> {
+  const minLevel = args.level ? LEVELS.indexOf(args.level) : 0;
+  const entries: BridgeLogEntry[] = [];
+  for (const line of (await readTail(args.file, 2 * 1024 * 1024)).split("\n")) {
+    if (!line.trim()) continue;
+    let entry: BridgeLogEntry;
+    try {
+      entry = JSON.parse(line) as BridgeLogEntry;
+    } catch {
+      continue;
+    }
+    if (LEVELS.indexOf(entry.level ?? "info") < minLevel) continue;
+    if (args.requestId && entry.requestId !== args.requestId) continue;
+    entries.push(entry);
+  }
+  return entries.slice(-args.lines);
+}
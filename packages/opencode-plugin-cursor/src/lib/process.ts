@@ -9,13 +9,14 @@ export type RunResult = {
 export type RunOptions = {
   cwd?: string;
   timeoutMs?: number;
+  env?: NodeJS.ProcessEnv;
 };
 
 export function run(cmd: string, args: string[], opts: RunOptions = {}): Promise<RunResult> {
   return new Promise((resolve, reject) => {
     const child = spawn(cmd, args, {
       cwd: opts.cwd,
-      env: process.env,
+      env: opts.env ?? process.env,
       stdio: ["ignore", "pipe", "pipe"],
     });
 
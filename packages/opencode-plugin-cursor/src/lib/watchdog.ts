@@ -0,0 +1,154 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import * as path from "node:path";
+
+import {
+  ensureBridgeProcess,
+  getBridgeCrashLogPath,
+  getBridgeStderrPath,
+  isBridgeUp,
+  readBridgeLock,
+  shouldAutostartBridge,
+  type BridgeLock,
+} from "./bridge.js";
+import { readTail } from "./logs.js";
+
+function envMs(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const n = raw ? Number(raw) : fallback;
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/** Failed starts in a row before the watchdog gives up until cursor_bridge_start. */
+const MAX_FAILED_STARTS = 5;
+
+/** Restart delay after `failures` failed attempts: 2s doubling up to 5 minutes. */
+function restartDelayMs(failures: number): number {
+  return Math.min(2_000 * 2 ** failures, 5 * 60_000);
+}
+
+async function toast(client: any, message: string, variant: "success" | "warning" | "error") {
+  try {
+    await client?.tui?.showToast?.({
+      body: { title: "Cursor bridge", message, variant, duration: 6_000 },
+    });
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Keeps the detached bridge alive for this OpenCode window: checks /health
+ * every `CURSOR_BRIDGE_WATCHDOG_INTERVAL_MS` (default 15s, 0 disables) and,
+ * when it stops answering, records the crash in the crash log and restarts
+ * the bridge with exponential backoff, giving up after MAX_FAILED_STARTS
+ * failed starts. Toasts when the bridge goes down and when it is back.
+ * `pause` keeps it from undoing cursor_bridge_stop.
+ */
+export function createBridgeWatchdog(args: { client: any; agentBin: string; cwd: string }) {
+  const intervalMs = envMs("CURSOR_BRIDGE_WATCHDOG_INTERVAL_MS", 15_000);
+  let timer: NodeJS.Timeout | undefined;
+  let paused = false;
+  let down = false;
+  let failures = 0;
+  let gaveUp = false;
+  let restarts = 0;
+  let lastLock: BridgeLock | undefined;
+  let lastError: string | undefined;
+
+  const schedule = (ms: number) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => void check(), ms);
+    // Never keep OpenCode alive just to watch the bridge.
+    timer.unref();
+  };
+
+  async function recordCrash() {
+    const stderr = await readTail(getBridgeStderrPath(), 8 * 1024);
+    const entry = {
+      time: new Date().toISOString(),
+      event: "bridge_down",
+      pid: lastLock?.pid,
+      version: lastLock?.version,
+      startedAt: lastLock?.startedAt,
+      baseURL: lastLock?.baseURL,
+      stderr: stderr.trim() || undefined,
+    };
+    const file = getBridgeCrashLogPath();
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, `${JSON.stringify(entry)}\n`, "utf8");
+  }
+
+  async function check() {
+    if (paused) return;
+    if (await isBridgeUp(1_000)) {
+      lastLock = readBridgeLock() ?? lastLock;
+      schedule(intervalMs);
+      return;
+    }
+
+    if (!down) {
+      down = true;
+      await recordCrash().catch(() => undefined);
+      await toast(args.client, "Bridge stopped responding; restarting it.", "warning");
+    }
+
+    const up = await ensureBridgeProcess(args.agentBin, args.cwd).catch(() => false);
+    if (paused) return;
+    if (up) {
+      down = false;
+      failures = 0;
+      restarts += 1;
+      lastError = undefined;
+      lastLock = readBridgeLock();
+      await toast(args.client, "Bridge is running again.", "success");
+      schedule(intervalMs);
+      return;
+    }
+
+    failures += 1;
+    lastError = `restart attempt ${failures} failed; see ${getBridgeStderrPath()}`;
+    if (failures >= MAX_FAILED_STARTS) {
+      gaveUp = true;
+      await toast(
+        args.client,
+        `Bridge failed to start ${failures} times; not retrying. See cursor_bridge_logs, ` +
+          "then run cursor_bridge_start.",
+        "error",
+      );
+      return;
+    }
+    schedule(restartDelayMs(failures));
+  }
+
+  return {
+    start() {
+      if (!intervalMs || !shouldAutostartBridge()) return;
+      lastLock = readBridgeLock();
+      paused = false;
+      gaveUp = false;
+      failures = 0;
+      schedule(intervalMs);
+    },
+    /** Stops watching until `start`, e.g. while the bridge is stopped on purpose. */
+    pause() {
+      paused = true;
+      clearTimeout(timer);
+      timer = undefined;
+    },
+    /** For cursor_bridge_status. */
+    status() {
+      return {
+        enabled: Boolean(timer) && !paused && !gaveUp,
+        gaveUp,
+        intervalMs,
+        down,
+        restarts,
+        failures,
+        crashLog: getBridgeCrashLogPath(),
+        ...(lastError ? { error: lastError } : {}),
+      };
+    },
+  };
+}
+
+export type BridgeWatchdog = ReturnType<typeof createBridgeWatchdog>;
@@ -1,14 +1,27 @@
 import { tool } from "@opencode-ai/plugin";
 
 import {
+  checkBridgeVersion,
   getBridgeBaseURL,
+  getBridgeCrashLogPath,
   getBridgeHealthURL,
+  getBridgeStderrPath,
+  getWorkspaceRegistration,
   isBridgeUp,
+  registerWorkspace,
+  releaseWorkspace,
+  resolveBridgeLogPath,
   startBridgeDetached,
-  stopBridgeByPidFile,
+  stopBridge,
 } from "../lib/bridge.js";
+import { readTail, tailBridgeLog } from "../lib/logs.js";
+import type { BridgeWatchdog } from "../lib/watchdog.js";
 
-export function createBridgeTools(args: { agentBin: string; cwd: string }) {
+export function createBridgeTools(args: {
+  agentBin: string;
+  cwd: string;
+  watchdog: BridgeWatchdog;
+}) {
   return {
     cursor_bridge_status: tool({
       description: "Check whether the local cursor-openai-bridge is reachable (GET /health).",
@@ -21,6 +34,9 @@ export function createBridgeTools(args: { agentBin: string; cwd: string }) {
             baseURL: getBridgeBaseURL(),
             v1BaseURL: `${getBridgeBaseURL()}/v1`,
             healthURL: getBridgeHealthURL(),
+            workspace: getWorkspaceRegistration(),
+            watchdog: args.watchdog.status(),
+            version: await checkBridgeVersion(),
           },
           null,
           2,
@@ -33,7 +49,9 @@ export function createBridgeTools(args: { agentBin: string; cwd: string }) {
         "Start the local cursor-openai-bridge as a detached process (if not already running).",
       args: {},
       async execute() {
+        args.watchdog.start();
         if (await isBridgeUp(300)) {
+          if (!getWorkspaceRegistration().registered) await registerWorkspace(args.cwd);
           return JSON.stringify(
             {
               ok: true,
@@ -52,6 +70,7 @@ export function createBridgeTools(args: { agentBin: string; cwd: string }) {
         const start = Date.now();
         while (Date.now() - start < 5_000) {
           if (await isBridgeUp(300)) {
+            await registerWorkspace(args.cwd);
             return JSON.stringify(
               {
                 ok: true,
@@ -71,7 +90,7 @@ export function createBridgeTools(args: { agentBin: string; cwd: string }) {
             ok: false,
             pid,
             message:
-              "Started process but /health did not respond yet. Check logs by running the bridge manually.",
+              "Started process but /health did not respond yet. Check cursor_bridge_logs for errors.",
           },
           null,
           2,
@@ -80,10 +99,15 @@ export function createBridgeTools(args: { agentBin: string; cwd: string }) {
     }),
 
     cursor_bridge_stop: tool({
-      description: "Stop the local cursor-openai-bridge using the pid file (best-effort).",
+      description:
+        "Stop the local cursor-openai-bridge named in its lock file (best-effort). Other " +
+        "OpenCode windows sharing the bridge lose it too.",
       args: {},
       async execute() {
-        const stopped = await stopBridgeByPidFile();
+        // Otherwise the watchdog would start it right back up.
+        args.watchdog.pause();
+        await releaseWorkspace();
+        const stopped = await stopBridge();
         return JSON.stringify(
           {
             stopped,
@@ -94,5 +118,50 @@ export function createBridgeTools(args: { agentBin: string; cwd: string }) {
         );
       },
     }),
+
+    cursor_bridge_logs: tool({
+      description:
+        "Show recent entries from the cursor-openai-bridge log (requests, Cursor CLI runs, " +
+        "errors), plus stderr of a bridge that failed to start and the watchdog's " +
+        "record of recent crashes.",
+      args: {
+        lines: tool.schema
+          .number()
+          .int()
+          .positive()
+          .max(500)
+          .optional()
+          .describe("Number of entries to return (default: 50)"),
+        level: tool.schema
+          .enum(["debug", "info", "warn", "error"])
+          .optional()
+          .describe("Only entries at or above this level"),
+        requestId: tool.schema
+          .string()
+          .optional()
+          .describe("Only entries for this x-request-id"),
+      },
+      async execute(toolArgs) {
+        const file = await resolveBridgeLogPath();
+        const entries = await tailBridgeLog({
+          file,
+          lines: toolArgs.lines ?? 50,
+          level: toolArgs.level,
+          requestId: toolArgs.requestId,
+        });
+        const stderr = (await readTail(getBridgeStderrPath(), 4_000)).trim();
+        const crashes = await tailBridgeLog({ file: getBridgeCrashLogPath(), lines: 5 });
+        return JSON.stringify(
+          {
+            file,
+            entries,
+            ...(stderr ? { stderr } : {}),
+            ...(crashes.length ? { crashes } : {}),
+          },
+          null,
+          2,
+        );
+      },
+    }),
   };
 }
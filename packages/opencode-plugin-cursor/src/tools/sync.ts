@@ -0,0 +1,60 @@
+import { tool } from "@opencode-ai/plugin";
+
+import { getBridgeNodeBin, getBridgeScriptPath } from "../lib/bridge.js";
+import { run } from "../lib/process.js";
+
+type SyncReport = {
+  file: string;
+  added: string[];
+  kept: string[];
+  stale: string[];
+  diff: string;
+  written: boolean;
+};
+
+export function createSyncTools(args: { agentBin: string; cwd: string }) {
+  return {
+    cursor_sync_models: tool({
+      description:
+        "Add the models Cursor CLI offers to provider.cursor in the OpenCode config " +
+        "(opencode.json/opencode.jsonc), keeping comments and existing entries. " +
+        "Without confirm it only returns the diff; call again with confirm=true to write.",
+      args: {
+        confirm: tool.schema
+          .boolean()
+          .optional()
+          .describe("Write the change (default: only show the diff)"),
+        file: tool.schema
+          .string()
+          .optional()
+          .describe("Config file to edit (default: the global OpenCode config)"),
+      },
+      async execute(toolArgs) {
+        const script = getBridgeScriptPath();
+        if (!script) throw new Error("Bridge script not found; set CURSOR_OPENAI_BRIDGE_SCRIPT.");
+
+        const cliArgs = [script, "sync-opencode", "--json"];
+        if (toolArgs.file) cliArgs.push("--file", toolArgs.file);
+        cliArgs.push(toolArgs.confirm ? "--yes" : "--dry-run");
+
+        const res = await run(getBridgeNodeBin(), cliArgs, {
+          cwd: args.cwd,
+          timeoutMs: 90_000,
+          env: { ...process.env, CURSOR_AGENT_BIN: args.agentBin },
+        });
+        if (res.code !== 0) {
+          throw new Error(`Model sync failed (exit ${res.code}).\n${res.stderr.trim()}`);
+        }
+
+        const report = JSON.parse(res.stdout) as SyncReport;
+        if (!report.added.length) {
+          return JSON.stringify({ ...report, message: "Already up to date." }, null, 2);
+        }
+        const message = report.written
+          ? "Written. Restart OpenCode to pick up the new models."
+          : "Not written yet. Show the diff to the user and call again with confirm=true.";
+        return JSON.stringify({ ...report, message }, null, 2);
+      },
+    }),
+  };
+}